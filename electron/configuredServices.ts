@@ -0,0 +1,56 @@
+/**
+ * 按配置开启的服务（正在播放分享的发布目标、听歌记录同步的提交服务）
+ * 每个服务有独立的配置项，只在该项变化、关闭或配置不完整时重新创建
+ */
+
+export interface ServiceDefinition<Config, Instance> {
+  // 已开启但配置不完整时返回提示
+  validate: (config: Config) => string | null;
+  isEnabled: (config: Config) => boolean;
+  create: (config: Config) => Instance;
+}
+
+export interface ServiceConfigResult {
+  enabled: boolean;
+  invalidReason: string | null;
+  // 沿用原来的实例（配置没有变化），调用方可以保留最近一次的错误
+  unchanged: boolean;
+}
+
+/**
+ * 应用配置：停止关闭、配置不完整或配置变化的服务，启动开启且配置完整的服务
+ * entries 中记录每个运行中服务的配置（configKey），由 start / stop 负责添加和删除
+ */
+export function reconfigureServices<
+  Id extends string,
+  Config extends Record<Id, unknown>,
+  Instance,
+>(
+  config: Config,
+  definitions: Record<Id, ServiceDefinition<Config, Instance>>,
+  entries: Map<Id, { configKey: string }>,
+  handlers: {
+    start: (id: Id, instance: Instance, configKey: string) => void;
+    stop: (id: Id) => void;
+  }
+): Record<Id, ServiceConfigResult> {
+  const results = {} as Record<Id, ServiceConfigResult>;
+
+  for (const id of Object.keys(definitions) as Id[]) {
+    const definition = definitions[id];
+    const enabled = definition.isEnabled(config);
+    const invalidReason = enabled ? definition.validate(config) : null;
+    const configKey = JSON.stringify(config[id]);
+    const entry = entries.get(id);
+
+    const unchanged = !!entry && enabled && !invalidReason && entry.configKey === configKey;
+    if (entry && !unchanged) {
+      handlers.stop(id);
+    }
+    if (enabled && !invalidReason && !unchanged) {
+      handlers.start(id, definition.create(config), configKey);
+    }
+    results[id] = { enabled, invalidReason, unchanged };
+  }
+  return results;
+}
@@ -0,0 +1,711 @@
+/**
+ * 最小的 D-Bus 客户端（只实现 MPRIS 需要的部分）
+ * 连接会话总线、申请名称、处理方法调用并发送信号；不依赖 Electron，可以在 dbus-run-session 下单独运行
+ */
+
+import net from "node:net";
+import os from "node:os";
+
+// 带类型签名的值（对应 D-Bus 的 v 类型）
+export interface Variant {
+  signature: string;
+  value: unknown;
+}
+
+export interface DBusMessage {
+  type: number;
+  flags: number;
+  serial: number;
+  path?: string;
+  interface?: string;
+  member?: string;
+  errorName?: string;
+  replySerial?: number;
+  destination?: string;
+  sender?: string;
+  signature: string;
+  body: unknown[];
+}
+
+// 方法调用的返回值
+export interface DBusReply {
+  signature: string;
+  body: unknown[];
+}
+
+// 处理方法调用时抛出，返回 D-Bus 错误
+export class DBusError extends Error {
+  constructor(public errorName: string, message: string) {
+    super(message);
+    this.name = "DBusError";
+  }
+}
+
+export interface DBusConnection {
+  uniqueName: string;
+  call: (message: {
+    destination: string;
+    path: string;
+    interface: string;
+    member: string;
+    signature?: string;
+    body?: unknown[];
+  }) => Promise<unknown[]>;
+  emitSignal: (message: {
+    path: string;
+    interface: string;
+    member: string;
+    signature: string;
+    body: unknown[];
+  }) => void;
+  // 处理其他程序发来的方法调用，返回 null 表示没有返回值
+  onMethodCall: (
+    handler: (message: DBusMessage) => Promise<DBusReply | null> | DBusReply | null
+  ) => void;
+  close: () => void;
+}
+
+export const MESSAGE_TYPE = {
+  METHOD_CALL: 1,
+  METHOD_RETURN: 2,
+  ERROR: 3,
+  SIGNAL: 4,
+};
+
+const FLAG_NO_REPLY_EXPECTED = 0x1;
+
+// 消息头字段编号
+const HEADER_FIELD = {
+  PATH: 1,
+  INTERFACE: 2,
+  MEMBER: 3,
+  ERROR_NAME: 4,
+  REPLY_SERIAL: 5,
+  DESTINATION: 6,
+  SENDER: 7,
+  SIGNATURE: 8,
+};
+
+const HEADER_FIELD_SIGNATURES: Record<number, string> = {
+  [HEADER_FIELD.PATH]: "o",
+  [HEADER_FIELD.INTERFACE]: "s",
+  [HEADER_FIELD.MEMBER]: "s",
+  [HEADER_FIELD.ERROR_NAME]: "s",
+  [HEADER_FIELD.REPLY_SERIAL]: "u",
+  [HEADER_FIELD.DESTINATION]: "s",
+  [HEADER_FIELD.SENDER]: "s",
+  [HEADER_FIELD.SIGNATURE]: "g",
+};
+
+// ========== 签名 ==========
+
+// 返回从 start 开始的一个完整类型的结束位置
+function completeTypeEnd(signature: string, start: number): number {
+  const char = signature[start];
+  if (char === "a") {
+    return completeTypeEnd(signature, start + 1);
+  }
+  if (char === "(" || char === "{") {
+    const close = char === "(" ? ")" : "}";
+    let index = start + 1;
+    while (signature[index] !== close) {
+      if (index >= signature.length) {
+        throw new Error(`无效的签名: ${signature}`);
+      }
+      index = completeTypeEnd(signature, index);
+    }
+    return index + 1;
+  }
+  if (!"ybnqiuxtdsogvh".includes(char)) {
+    throw new Error(`不支持的类型: ${char}`);
+  }
+  return start + 1;
+}
+
+// 把签名拆成完整类型列表，如 "sa{sv}as" => ["s", "a{sv}", "as"]
+export function splitSignature(signature: string): string[] {
+  const types: string[] = [];
+  let index = 0;
+  while (index < signature.length) {
+    const end = completeTypeEnd(signature, index);
+    types.push(signature.slice(index, end));
+    index = end;
+  }
+  return types;
+}
+
+function alignmentOf(type: string): number {
+  switch (type[0]) {
+    case "y":
+    case "g":
+    case "v":
+      return 1;
+    case "n":
+    case "q":
+      return 2;
+    case "x":
+    case "t":
+    case "d":
+    case "(":
+    case "{":
+      return 8;
+    default:
+      return 4;
+  }
+}
+
+// ========== 编码 ==========
+
+class Writer {
+  private buffer = Buffer.alloc(256);
+  length = 0;
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+    const next = Buffer.alloc(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(next, 0, 0, this.length);
+    this.buffer = next;
+  }
+
+  align(alignment: number) {
+    const padding = (alignment - (this.length % alignment)) % alignment;
+    this.ensure(padding);
+    this.buffer.fill(0, this.length, this.length + padding);
+    this.length += padding;
+  }
+
+  writeUInt8(value: number) {
+    this.ensure(1);
+    this.buffer.writeUInt8(value, this.length);
+    this.length += 1;
+  }
+
+  writeUInt32(value: number) {
+    this.align(4);
+    this.ensure(4);
+    this.buffer.writeUInt32LE(value, this.length);
+    this.length += 4;
+  }
+
+  setUInt32(offset: number, value: number) {
+    this.buffer.writeUInt32LE(value, offset);
+  }
+
+  writeBytes(bytes: Buffer) {
+    this.ensure(bytes.length);
+    bytes.copy(this.buffer, this.length);
+    this.length += bytes.length;
+  }
+
+  write(type: string, value: any) {
+    switch (type[0]) {
+      case "y":
+        this.writeUInt8(value);
+        return;
+      case "b":
+        this.writeUInt32(value ? 1 : 0);
+        return;
+      case "n":
+      case "q":
+        this.align(2);
+        this.ensure(2);
+        if (type === "n") this.buffer.writeInt16LE(value, this.length);
+        else this.buffer.writeUInt16LE(value, this.length);
+        this.length += 2;
+        return;
+      case "i":
+        this.align(4);
+        this.ensure(4);
+        this.buffer.writeInt32LE(value, this.length);
+        this.length += 4;
+        return;
+      case "u":
+      case "h":
+        this.writeUInt32(value);
+        return;
+      case "x":
+      case "t":
+        this.align(8);
+        this.ensure(8);
+        if (type === "x") this.buffer.writeBigInt64LE(BigInt(value), this.length);
+        else this.buffer.writeBigUInt64LE(BigInt(value), this.length);
+        this.length += 8;
+        return;
+      case "d":
+        this.align(8);
+        this.ensure(8);
+        this.buffer.writeDoubleLE(value, this.length);
+        this.length += 8;
+        return;
+      case "s":
+      case "o": {
+        const bytes = Buffer.from(String(value), "utf-8");
+        this.writeUInt32(bytes.length);
+        this.writeBytes(bytes);
+        this.writeUInt8(0);
+        return;
+      }
+      case "g": {
+        const bytes = Buffer.from(String(value), "utf-8");
+        this.writeUInt8(bytes.length);
+        this.writeBytes(bytes);
+        this.writeUInt8(0);
+        return;
+      }
+      case "v": {
+        const variant = value as Variant;
+        this.write("g", variant.signature);
+        this.write(variant.signature, variant.value);
+        return;
+      }
+      case "a": {
+        const elementType = type.slice(1);
+        this.writeUInt32(0);
+        const lengthOffset = this.length - 4;
+        this.align(alignmentOf(elementType));
+        const start = this.length;
+        // 字典可以直接传对象
+        const items: unknown[] =
+          elementType[0] === "{" && !Array.isArray(value)
+            ? Object.entries(value)
+            : value;
+        for (const item of items) {
+          this.write(elementType, item);
+        }
+        this.setUInt32(lengthOffset, this.length - start);
+        return;
+      }
+      case "(":
+      case "{": {
+        this.align(8);
+        const fieldTypes = splitSignature(type.slice(1, -1));
+        fieldTypes.forEach((fieldType, index) => this.write(fieldType, value[index]));
+        return;
+      }
+    }
+    throw new Error(`不支持的类型: ${type}`);
+  }
+
+  toBuffer() {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+export function marshal(signature: string, body: unknown[]): Buffer {
+  const writer = new Writer();
+  splitSignature(signature).forEach((type, index) => writer.write(type, body[index]));
+  return Buffer.from(writer.toBuffer());
+}
+
+// ========== 解码 ==========
+
+class Reader {
+  constructor(
+    private buffer: Buffer,
+    public offset: number,
+    private littleEndian: boolean
+  ) {}
+
+  align(alignment: number) {
+    this.offset += (alignment - (this.offset % alignment)) % alignment;
+  }
+
+  readUInt32() {
+    this.align(4);
+    const value = this.littleEndian
+      ? this.buffer.readUInt32LE(this.offset)
+      : this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  read(type: string): any {
+    const le = this.littleEndian;
+    switch (type[0]) {
+      case "y":
+        return this.buffer.readUInt8(this.offset++);
+      case "b":
+        return this.readUInt32() !== 0;
+      case "n":
+      case "q": {
+        this.align(2);
+        const value =
+          type === "n"
+            ? le ? this.buffer.readInt16LE(this.offset) : this.buffer.readInt16BE(this.offset)
+            : le ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case "i": {
+        this.align(4);
+        const value = le
+          ? this.buffer.readInt32LE(this.offset)
+          : this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case "u":
+      case "h":
+        return this.readUInt32();
+      case "x":
+      case "t": {
+        this.align(8);
+        const value =
+          type === "x"
+            ? le ? this.buffer.readBigInt64LE(this.offset) : this.buffer.readBigInt64BE(this.offset)
+            : le ? this.buffer.readBigUInt64LE(this.offset) : this.buffer.readBigUInt64BE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case "d": {
+        this.align(8);
+        const value = le
+          ? this.buffer.readDoubleLE(this.offset)
+          : this.buffer.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case "s":
+      case "o": {
+        const length = this.readUInt32();
+        const value = this.buffer.toString("utf-8", this.offset, this.offset + length);
+        this.offset += length + 1;
+        return value;
+      }
+      case "g": {
+        const length = this.buffer.readUInt8(this.offset++);
+        const value = this.buffer.toString("utf-8", this.offset, this.offset + length);
+        this.offset += length + 1;
+        return value;
+      }
+      case "v": {
+        const signature = this.read("g");
+        return { signature, value: this.read(signature) } as Variant;
+      }
+      case "a": {
+        const elementType = type.slice(1);
+        const length = this.readUInt32();
+        this.align(alignmentOf(elementType));
+        const end = this.offset + length;
+        const items: unknown[] = [];
+        while (this.offset < end) {
+          items.push(this.read(elementType));
+        }
+        return items;
+      }
+      case "(":
+      case "{": {
+        this.align(8);
+        return splitSignature(type.slice(1, -1)).map((fieldType) => this.read(fieldType));
+      }
+    }
+    throw new Error(`不支持的类型: ${type}`);
+  }
+}
+
+// 消息总长度，数据不完整时返回 null
+function messageLength(buffer: Buffer): number | null {
+  if (buffer.length < 16) return null;
+  const littleEndian = buffer[0] === 0x6c;
+  const bodyLength = littleEndian ? buffer.readUInt32LE(4) : buffer.readUInt32BE(4);
+  const fieldsLength = littleEndian ? buffer.readUInt32LE(12) : buffer.readUInt32BE(12);
+  const headerLength = 16 + fieldsLength + ((8 - (fieldsLength % 8)) % 8);
+  return headerLength + bodyLength;
+}
+
+function parseMessage(buffer: Buffer): DBusMessage {
+  const littleEndian = buffer[0] === 0x6c;
+  const reader = new Reader(buffer, 12, littleEndian);
+  const fields = reader.read("a(yv)") as [number, Variant][];
+  reader.align(8);
+
+  const message: DBusMessage = {
+    type: buffer[1],
+    flags: buffer[2],
+    serial: littleEndian ? buffer.readUInt32LE(8) : buffer.readUInt32BE(8),
+    signature: "",
+    body: [],
+  };
+  for (const [code, variant] of fields) {
+    const value = variant.value as any;
+    switch (code) {
+      case HEADER_FIELD.PATH:
+        message.path = value;
+        break;
+      case HEADER_FIELD.INTERFACE:
+        message.interface = value;
+        break;
+      case HEADER_FIELD.MEMBER:
+        message.member = value;
+        break;
+      case HEADER_FIELD.ERROR_NAME:
+        message.errorName = value;
+        break;
+      case HEADER_FIELD.REPLY_SERIAL:
+        message.replySerial = value;
+        break;
+      case HEADER_FIELD.DESTINATION:
+        message.destination = value;
+        break;
+      case HEADER_FIELD.SENDER:
+        message.sender = value;
+        break;
+      case HEADER_FIELD.SIGNATURE:
+        message.signature = value;
+        break;
+    }
+  }
+
+  // 消息体从 8 字节对齐的位置开始，单独解码时对齐结果相同
+  const body = buffer.subarray(reader.offset);
+  const bodyReader = new Reader(body, 0, littleEndian);
+  message.body = splitSignature(message.signature).map((type) => bodyReader.read(type));
+  return message;
+}
+
+function encodeMessage(
+  type: number,
+  serial: number,
+  fields: Partial<Record<number, string | number>>,
+  signature: string,
+  body: unknown[],
+  flags = 0
+) {
+  const bodyBuffer = marshal(signature, body);
+  const headerFields: [number, Variant][] = [];
+  for (const [code, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    headerFields.push([Number(code), { signature: HEADER_FIELD_SIGNATURES[Number(code)], value }]);
+  }
+  if (signature) {
+    headerFields.push([HEADER_FIELD.SIGNATURE, { signature: "g", value: signature }]);
+  }
+
+  const writer = new Writer();
+  writer.writeUInt8(0x6c); // 小端序
+  writer.writeUInt8(type);
+  writer.writeUInt8(flags);
+  writer.writeUInt8(1); // 协议版本
+  writer.writeUInt32(bodyBuffer.length);
+  writer.writeUInt32(serial);
+  writer.write("a(yv)", headerFields);
+  writer.align(8);
+  writer.writeBytes(bodyBuffer);
+  return Buffer.from(writer.toBuffer());
+}
+
+// ========== 连接 ==========
+
+// 解析会话总线地址，只支持 unix:path= 和 unix:abstract=
+function getSessionBusSocketPath() {
+  const address =
+    process.env.DBUS_SESSION_BUS_ADDRESS ||
+    `unix:path=/run/user/${os.userInfo().uid}/bus`;
+
+  for (const entry of address.split(";")) {
+    if (!entry.startsWith("unix:")) continue;
+    const params = new Map(
+      entry
+        .slice("unix:".length)
+        .split(",")
+        .map((pair) => {
+          const index = pair.indexOf("=");
+          return [pair.slice(0, index), decodeURIComponent(pair.slice(index + 1))] as const;
+        })
+    );
+    if (params.has("path")) return params.get("path")!;
+    if (params.has("abstract")) return `\0${params.get("abstract")}`;
+  }
+  throw new Error(`不支持的会话总线地址: ${address}`);
+}
+
+/**
+ * 连接会话总线并完成认证，返回连接
+ */
+export function connectSessionBus(): Promise<DBusConnection> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(getSessionBusSocketPath());
+    let serial = 0;
+    let authenticated = false;
+    let buffer = Buffer.alloc(0);
+    let methodCallHandler:
+      | ((message: DBusMessage) => Promise<DBusReply | null> | DBusReply | null)
+      | null = null;
+    const pendingCalls = new Map<
+      number,
+      { resolve: (body: unknown[]) => void; reject: (error: Error) => void }
+    >();
+
+    const send = (data: Buffer) => {
+      if (!socket.destroyed) socket.write(data);
+    };
+
+    const sendReply = (message: DBusMessage, reply: DBusReply | null) => {
+      send(
+        encodeMessage(
+          MESSAGE_TYPE.METHOD_RETURN,
+          ++serial,
+          { [HEADER_FIELD.REPLY_SERIAL]: message.serial, [HEADER_FIELD.DESTINATION]: message.sender },
+          reply?.signature || "",
+          reply?.body || [],
+          FLAG_NO_REPLY_EXPECTED
+        )
+      );
+    };
+
+    const sendError = (message: DBusMessage, errorName: string, text: string) => {
+      send(
+        encodeMessage(
+          MESSAGE_TYPE.ERROR,
+          ++serial,
+          {
+            [HEADER_FIELD.REPLY_SERIAL]: message.serial,
+            [HEADER_FIELD.DESTINATION]: message.sender,
+            [HEADER_FIELD.ERROR_NAME]: errorName,
+          },
+          "s",
+          [text],
+          FLAG_NO_REPLY_EXPECTED
+        )
+      );
+    };
+
+    const handleMessage = async (message: DBusMessage) => {
+      if (message.type === MESSAGE_TYPE.METHOD_RETURN || message.type === MESSAGE_TYPE.ERROR) {
+        const pending = pendingCalls.get(message.replySerial ?? -1);
+        if (!pending) return;
+        pendingCalls.delete(message.replySerial!);
+        if (message.type === MESSAGE_TYPE.ERROR) {
+          pending.reject(new DBusError(message.errorName || "", String(message.body[0] ?? "")));
+        } else {
+          pending.resolve(message.body);
+        }
+        return;
+      }
+
+      if (message.type !== MESSAGE_TYPE.METHOD_CALL) return;
+      const noReply = (message.flags & FLAG_NO_REPLY_EXPECTED) !== 0;
+      try {
+        if (!methodCallHandler) {
+          throw new DBusError("org.freedesktop.DBus.Error.UnknownMethod", "没有处理程序");
+        }
+        const reply = await methodCallHandler(message);
+        if (!noReply) sendReply(message, reply);
+      } catch (error: any) {
+        if (noReply) return;
+        if (error instanceof DBusError) {
+          sendError(message, error.errorName, error.message);
+        } else {
+          console.error("处理 D-Bus 方法调用失败:", error);
+          sendError(message, "org.freedesktop.DBus.Error.Failed", error?.message || "调用失败");
+        }
+      }
+    };
+
+    const call: DBusConnection["call"] = (options) =>
+      new Promise((resolveCall, rejectCall) => {
+        const callSerial = ++serial;
+        pendingCalls.set(callSerial, { resolve: resolveCall, reject: rejectCall });
+        send(
+          encodeMessage(
+            MESSAGE_TYPE.METHOD_CALL,
+            callSerial,
+            {
+              [HEADER_FIELD.PATH]: options.path,
+              [HEADER_FIELD.INTERFACE]: options.interface,
+              [HEADER_FIELD.MEMBER]: options.member,
+              [HEADER_FIELD.DESTINATION]: options.destination,
+            },
+            options.signature || "",
+            options.body || []
+          )
+        );
+      });
+
+    const connection: DBusConnection = {
+      uniqueName: "",
+      call,
+      emitSignal: (options) => {
+        send(
+          encodeMessage(
+            MESSAGE_TYPE.SIGNAL,
+            ++serial,
+            {
+              [HEADER_FIELD.PATH]: options.path,
+              [HEADER_FIELD.INTERFACE]: options.interface,
+              [HEADER_FIELD.MEMBER]: options.member,
+            },
+            options.signature,
+            options.body,
+            FLAG_NO_REPLY_EXPECTED
+          )
+        );
+      },
+      onMethodCall: (handler) => {
+        methodCallHandler = handler;
+      },
+      close: () => {
+        socket.destroy();
+      },
+    };
+
+    socket.on("connect", () => {
+      // 认证：先发送一个空字节，再用当前用户的 uid 进行 EXTERNAL 认证
+      const uid = Buffer.from(String(os.userInfo().uid)).toString("hex");
+      socket.write(Buffer.from([0]));
+      socket.write(`AUTH EXTERNAL ${uid}\r\n`);
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      if (!authenticated) {
+        const lineEnd = buffer.indexOf("\r\n");
+        if (lineEnd === -1) return;
+        const line = buffer.toString("utf-8", 0, lineEnd);
+        buffer = buffer.subarray(lineEnd + 2);
+        if (!line.startsWith("OK")) {
+          socket.destroy();
+          reject(new Error(`D-Bus 认证失败: ${line}`));
+          return;
+        }
+        authenticated = true;
+        socket.write("BEGIN\r\n");
+
+        call({
+          destination: "org.freedesktop.DBus",
+          path: "/org/freedesktop/DBus",
+          interface: "org.freedesktop.DBus",
+          member: "Hello",
+        })
+          .then(([name]) => {
+            connection.uniqueName = String(name);
+            resolve(connection);
+          })
+          .catch(reject);
+      }
+
+      let length = messageLength(buffer);
+      while (length !== null && buffer.length >= length) {
+        const data = buffer.subarray(0, length);
+        buffer = buffer.subarray(length);
+        try {
+          handleMessage(parseMessage(data));
+        } catch (error) {
+          console.error("解析 D-Bus 消息失败:", error);
+        }
+        length = messageLength(buffer);
+      }
+    });
+
+    socket.on("error", (error) => {
+      pendingCalls.forEach((pending) => pending.reject(error));
+      pendingCalls.clear();
+      reject(error);
+    });
+    socket.on("close", () => {
+      pendingCalls.forEach((pending) => pending.reject(new Error("D-Bus 连接已关闭")));
+      pendingCalls.clear();
+    });
+  });
+}
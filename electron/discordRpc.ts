@@ -0,0 +1,222 @@
+/**
+ * Discord RPC 客户端
+ * 通过 Discord 客户端的本地 IPC 套接字（Windows 为命名管道）设置“正在听”状态，只实现握手和 SET_ACTIVITY
+ */
+
+import net from "node:net";
+import path from "node:path";
+import crypto from "node:crypto";
+
+// 帧格式：操作码（int32 小端）+ 长度（int32 小端）+ JSON
+const OPCODE = {
+  HANDSHAKE: 0,
+  FRAME: 1,
+  CLOSE: 2,
+  PING: 3,
+  PONG: 4,
+};
+
+// 连接和请求的超时时间（毫秒）
+const TIMEOUT = 5000;
+
+// 活动类型：正在听
+const ACTIVITY_TYPE_LISTENING = 2;
+
+export interface DiscordActivity {
+  details: string;
+  state: string;
+  // 开始和结束时间（毫秒时间戳），Discord 据此显示进度
+  startTimestamp?: number;
+  endTimestamp?: number;
+  // 封面图片地址和鼠标悬停时的文字
+  largeImage?: string;
+  largeText?: string;
+}
+
+export interface DiscordRpcClient {
+  // 设置状态，传入 null 时清除
+  setActivity: (activity: DiscordActivity | null) => Promise<void>;
+  isConnected: () => boolean;
+  close: () => void;
+}
+
+// 可能的套接字路径（Discord 依次尝试 discord-ipc-0 到 discord-ipc-9）
+function getIpcPaths() {
+  const indexes = Array.from({ length: 10 }, (_, i) => i);
+  if (process.platform === "win32") {
+    return indexes.map((i) => `\\\\?\\pipe\\discord-ipc-${i}`);
+  }
+
+  const { XDG_RUNTIME_DIR, TMPDIR, TMP, TEMP } = process.env;
+  const base = XDG_RUNTIME_DIR || TMPDIR || TMP || TEMP || "/tmp";
+  // Flatpak、Snap 版本的 Discord 把套接字放在子目录中
+  const directories = [
+    base,
+    path.join(base, "app", "com.discordapp.Discord"),
+    path.join(base, "snap.discord"),
+  ];
+  return directories.flatMap((directory) =>
+    indexes.map((i) => path.join(directory, `discord-ipc-${i}`))
+  );
+}
+
+function encodeFrame(opcode: number, data: unknown) {
+  const payload = Buffer.from(JSON.stringify(data), "utf-8");
+  const header = Buffer.alloc(8);
+  header.writeInt32LE(opcode, 0);
+  header.writeInt32LE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+function openSocket(socketPath: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    socket.once("connect", () => {
+      socket.removeAllListeners("error");
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+// 依次尝试各个套接字路径，Discord 未运行时抛出异常
+async function openIpcSocket() {
+  for (const socketPath of getIpcPaths()) {
+    try {
+      return await openSocket(socketPath);
+    } catch {
+      // 尝试下一个路径
+    }
+  }
+  throw new Error("未检测到正在运行的 Discord");
+}
+
+/**
+ * 连接 Discord 客户端并完成握手
+ */
+export async function connectDiscordRpc(clientId: string): Promise<DiscordRpcClient> {
+  const socket = await openIpcSocket();
+  let buffer = Buffer.alloc(0);
+  let connected = false;
+  const pendingRequests = new Map<
+    string,
+    { resolve: () => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  const rejectAll = (error: Error) => {
+    pendingRequests.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    pendingRequests.clear();
+  };
+
+  return new Promise((resolve, reject) => {
+    const handshakeTimer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error("连接 Discord 超时"));
+    }, TIMEOUT);
+
+    const client: DiscordRpcClient = {
+      setActivity: (activity) =>
+        new Promise((resolveRequest, rejectRequest) => {
+          if (!connected) {
+            rejectRequest(new Error("Discord 连接已断开"));
+            return;
+          }
+
+          const nonce = crypto.randomUUID();
+          const timer = setTimeout(() => {
+            pendingRequests.delete(nonce);
+            rejectRequest(new Error("Discord 响应超时"));
+          }, TIMEOUT);
+          pendingRequests.set(nonce, { resolve: resolveRequest, reject: rejectRequest, timer });
+
+          socket.write(
+            encodeFrame(OPCODE.FRAME, {
+              cmd: "SET_ACTIVITY",
+              nonce,
+              args: {
+                pid: process.pid,
+                activity: activity && {
+                  type: ACTIVITY_TYPE_LISTENING,
+                  details: activity.details,
+                  state: activity.state,
+                  timestamps: activity.startTimestamp
+                    ? { start: activity.startTimestamp, end: activity.endTimestamp }
+                    : undefined,
+                  assets: activity.largeImage
+                    ? { large_image: activity.largeImage, large_text: activity.largeText }
+                    : undefined,
+                },
+              },
+            })
+          );
+        }),
+      isConnected: () => connected,
+      close: () => {
+        connected = false;
+        socket.destroy();
+      },
+    };
+
+    const handleFrame = (opcode: number, data: any) => {
+      switch (opcode) {
+        case OPCODE.PING:
+          socket.write(encodeFrame(OPCODE.PONG, data));
+          return;
+        case OPCODE.CLOSE:
+          // 应用 ID 无效等情况下 Discord 会关闭连接并附上原因
+          clearTimeout(handshakeTimer);
+          reject(new Error(data?.message || "Discord 关闭了连接"));
+          client.close();
+          return;
+        case OPCODE.FRAME:
+          if (data?.evt === "READY" && !connected) {
+            clearTimeout(handshakeTimer);
+            connected = true;
+            resolve(client);
+            return;
+          }
+          if (data?.nonce && pendingRequests.has(data.nonce)) {
+            const pending = pendingRequests.get(data.nonce)!;
+            pendingRequests.delete(data.nonce);
+            clearTimeout(pending.timer);
+            if (data.evt === "ERROR") {
+              pending.reject(new Error(data.data?.message || "Discord 返回错误"));
+            } else {
+              pending.resolve();
+            }
+          }
+      }
+    };
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      while (buffer.length >= 8) {
+        const opcode = buffer.readInt32LE(0);
+        const length = buffer.readInt32LE(4);
+        if (buffer.length < 8 + length) return;
+        const payload = buffer.toString("utf-8", 8, 8 + length);
+        buffer = buffer.subarray(8 + length);
+        try {
+          handleFrame(opcode, JSON.parse(payload));
+        } catch (error) {
+          console.error("解析 Discord 消息失败:", error);
+        }
+      }
+    });
+
+    socket.on("close", () => {
+      connected = false;
+      clearTimeout(handshakeTimer);
+      reject(new Error("Discord 关闭了连接"));
+      rejectAll(new Error("Discord 连接已断开"));
+    });
+    socket.on("error", (error) => {
+      console.warn("Discord 连接出错:", error.message);
+    });
+
+    socket.write(encodeFrame(OPCODE.HANDSHAKE, { v: 1, client_id: clientId }));
+  });
+}
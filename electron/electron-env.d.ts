@@ -42,6 +42,100 @@ interface Window {
       }>;
       error?: string;
     }>;
+    registerGlobalShortcuts(
+      bindings: Record<string, string>
+    ): Promise<{ success: boolean; failed: string[] }>;
+    onGlobalShortcut(callback: (action: string) => void): () => void;
+    updateTrayState(state: {
+      hasSong: boolean;
+      title: string;
+      artist: string;
+      isPlaying: boolean;
+      playModeText: string;
+      isFavorite: boolean;
+    }): Promise<{ success: boolean }>;
+    onTrayCommand(callback: (command: string) => void): () => void;
+    setDesktopLyric(options: {
+      enabled: boolean;
+      locked: boolean;
+    }): Promise<{ success: boolean }>;
+    sendDesktopLyricState(
+      message: import("../src/config/desktopLyric").DesktopLyricMessage
+    ): void;
+    onDesktopLyricState(
+      callback: (message: import("../src/config/desktopLyric").DesktopLyricMessage) => void
+    ): () => void;
+    sendDesktopLyricCommand(
+      command: import("../src/config/desktopLyric").DesktopLyricCommand
+    ): void;
+    onDesktopLyricCommand(
+      callback: (command: import("../src/config/desktopLyric").DesktopLyricCommand) => void
+    ): () => void;
+    setDesktopLyricIgnoreMouse(ignore: boolean): void;
+    toggleMiniPlayer(): Promise<{ success: boolean; enabled: boolean }>;
+    sendMiniPlayerState(state: import("../src/config/miniPlayer").MiniPlayerState): void;
+    onMiniPlayerState(
+      callback: (state: import("../src/config/miniPlayer").MiniPlayerState) => void
+    ): () => void;
+    sendMiniPlayerCommand(command: import("../src/config/miniPlayer").MiniPlayerCommand): void;
+    onMiniPlayerCommand(
+      callback: (command: import("../src/config/miniPlayer").MiniPlayerCommand) => void
+    ): () => void;
+    takeExternalOpenRequests(): Promise<
+      import("../src/config/externalOpen").ExternalOpenRequest[]
+    >;
+    onExternalOpen(
+      callback: (request: import("../src/config/externalOpen").ExternalOpenRequest) => void
+    ): () => void;
+    onRemoteCommand(
+      callback: (command: import("../src/config/remoteControl").RemoteCommand) => void
+    ): () => void;
+    onRemoteQuery(
+      callback: (
+        requestId: number,
+        query: import("../src/config/remoteControl").RemoteQuery
+      ) => void
+    ): () => void;
+    sendRemoteQueryResult(
+      requestId: number,
+      result: import("../src/config/remoteControl").RemoteQueryResult
+    ): void;
+    setRemoteControl(
+      config: import("../src/config/remoteControl").RemoteControlConfig
+    ): Promise<import("../src/config/remoteControl").RemoteControlStatus>;
+    sendRemotePlayerState(
+      state: import("../src/config/remoteControl").RemotePlayerStatus
+    ): void;
+    setNowPlayingConfig(
+      config: import("../src/config/nowPlaying").NowPlayingConfig
+    ): Promise<import("../src/config/nowPlaying").NowPlayingStatus>;
+    updateNowPlaying(info: import("../src/config/nowPlaying").NowPlayingInfo): void;
+    onNowPlayingStatus(
+      callback: (status: import("../src/config/nowPlaying").NowPlayingStatus) => void
+    ): () => void;
+    selectNowPlayingFile(): Promise<string>;
+    setScrobbleConfig(
+      config: import("../src/config/scrobble").ScrobbleConfig
+    ): Promise<import("../src/config/scrobble").ScrobbleStatus>;
+    loginLastfm(options: {
+      baseUrl: string;
+      apiKey: string;
+      apiSecret: string;
+      username: string;
+      password: string;
+    }): Promise<
+      | { success: true; data: import("../src/config/scrobble").LastfmSession }
+      | { success: false; message: string }
+    >;
+    scrobbleNowPlaying(track: import("../src/config/scrobble").ScrobbleTrack): void;
+    scrobbleTrack(track: import("../src/config/scrobble").ScrobbleTrack): void;
+    onScrobbleStatus(
+      callback: (status: import("../src/config/scrobble").ScrobbleStatus) => void
+    ): () => void;
+    updateMprisState(state: import("../src/config/mpris").MprisState): void;
+    onMprisCommand(
+      callback: (command: import("../src/config/mpris").MprisCommand) => void
+    ): () => void;
   };
   electron?: {
     invoke(channel: string, ...args: any[]): Promise<any>;
@@ -1,9 +1,26 @@
-import { app, BrowserWindow, ipcMain, dialog, Tray, Menu, nativeImage } from "electron";
+import { app, BrowserWindow, ipcMain, dialog, Tray, Menu, nativeImage, globalShortcut, screen } from "electron";
 // import { createRequire } from "node:module";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
 import fs from "fs/promises";
-import { existsSync } from "fs";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { startRemoteServer, RemoteApiError } from "./remoteServer";
+import type { RemoteServer, RemoteApiRequest } from "./remoteServer";
+import { startMprisService } from "./mpris";
+import type { MprisService } from "./mpris";
+import { createNowPlayingPublisher } from "./nowPlaying";
+import { createScrobbler, loginLastfm } from "./scrobbler";
+import type {
+  RemoteCommand,
+  RemoteControlConfig,
+  RemoteControlStatus,
+  RemotePlayerStatus,
+  RemoteQuery,
+  RemoteQueryResult,
+} from "../src/config/remoteControl";
+import type { MprisCommand, MprisState } from "../src/config/mpris";
+import type { NowPlayingConfig, NowPlayingInfo } from "../src/config/nowPlaying";
+import type { ScrobbleConfig, ScrobbleTrack } from "../src/config/scrobble";
 // const require = createRequire(import.meta.url);
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -28,59 +45,295 @@ process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL
   : RENDERER_DIST;
 
 let win: BrowserWindow | null;
+let lyricWin: BrowserWindow | null = null;
+let miniWin: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let closeToTray = false; // 是否关闭到托盘（默认false）
 
-// 创建系统托盘
-function createTray() {
-  // 使用应用图标创建托盘
-  const iconPath = path.join(process.env.VITE_PUBLIC, "icon.ico");
+// 渲染进程推送的播放状态（用于托盘菜单和提示文字）
+interface TrayPlayerState {
+  hasSong: boolean;
+  title: string;
+  artist: string;
+  isPlaying: boolean;
+  playModeText: string;
+  isFavorite: boolean;
+}
 
-  // 创建托盘图标
-  tray = new Tray(iconPath);
+let trayPlayerState: TrayPlayerState = {
+  hasSong: false,
+  title: "",
+  artist: "",
+  isPlaying: false,
+  playModeText: "列表循环",
+  isFavorite: false,
+};
+
+// 桌面歌词开关和锁定状态（由主窗口的设置决定）
+let desktopLyricOptions = { enabled: false, locked: false };
+
+// Windows 托盘提示文字最长 127 个字符
+const TRAY_TOOLTIP_MAX_LENGTH = 127;
+
+// 把托盘菜单中的播放操作转发给渲染进程
+function sendTrayCommand(command: string) {
+  win?.webContents.send("tray-command", command);
+}
+
+// 根据播放状态更新托盘提示文字和右键菜单
+function updateTray() {
+  if (!tray) return;
+
+  const { hasSong, title, artist, isPlaying, playModeText, isFavorite } =
+    trayPlayerState;
+  const nowPlaying = hasSong ? [title, artist].filter(Boolean).join(" - ") : "";
 
-  // 设置托盘提示文字
-  tray.setToolTip("清风音乐");
+  const tooltip = nowPlaying ? `${nowPlaying}\n清风音乐` : "清风音乐";
+  tray.setToolTip(
+    tooltip.length > TRAY_TOOLTIP_MAX_LENGTH
+      ? `${tooltip.slice(0, TRAY_TOOLTIP_MAX_LENGTH - 1)}…`
+      : tooltip
+  );
 
-  // 创建托盘右键菜单
   const contextMenu = Menu.buildFromTemplate([
+    {
+      label: nowPlaying || "未在播放",
+      enabled: false,
+    },
+    {
+      type: "separator"
+    },
+    {
+      label: isPlaying ? "暂停" : "播放",
+      click: () => sendTrayCommand("playPause"),
+    },
+    {
+      label: "上一首",
+      enabled: hasSong,
+      click: () => sendTrayCommand("prev"),
+    },
+    {
+      label: "下一首",
+      enabled: hasSong,
+      click: () => sendTrayCommand("next"),
+    },
+    {
+      label: `播放模式：${playModeText}`,
+      click: () => sendTrayCommand("togglePlayMode"),
+    },
+    {
+      label: "收藏当前歌曲",
+      type: "checkbox",
+      checked: isFavorite,
+      enabled: hasSong,
+      click: () => sendTrayCommand("favorite"),
+    },
+    {
+      type: "separator"
+    },
+    {
+      label: "迷你模式",
+      type: "checkbox",
+      checked: !!miniWin,
+      click: () => setMiniPlayerMode(!miniWin),
+    },
+    {
+      label: "桌面歌词",
+      type: "checkbox",
+      checked: desktopLyricOptions.enabled,
+      click: () => sendTrayCommand("toggleDesktopLyric"),
+    },
+    {
+      label: "锁定桌面歌词",
+      type: "checkbox",
+      checked: desktopLyricOptions.locked,
+      enabled: desktopLyricOptions.enabled,
+      click: () => sendTrayCommand("toggleDesktopLyricLock"),
+    },
+    {
+      type: "separator"
+    },
     {
       label: "显示主窗口",
-      click: () => {
-        if (win) {
-          win.show();
-          win.focus();
-        }
-      }
+      click: showMainWindow
     },
     {
       type: "separator"
     },
     {
       label: "退出",
-      click: () => {
-        app.isQuiting = true;
-        app.quit();
-      }
+      click: quitApp
     }
   ]);
 
   tray.setContextMenu(contextMenu);
+}
+
+// 创建系统托盘
+function createTray() {
+  // 使用应用图标创建托盘
+  const iconPath = path.join(process.env.VITE_PUBLIC, "icon.ico");
+
+  // 创建托盘图标
+  tray = new Tray(iconPath);
+
+  // 设置托盘提示文字和右键菜单
+  updateTray();
 
   // 双击托盘图标显示窗口
-  tray.on("double-click", () => {
-    if (win) {
-      win.show();
-      win.focus();
+  tray.on("double-click", showMainWindow);
+}
+
+// 退出程序（关闭窗口时不再最小化到托盘）
+function quitApp() {
+  app.isQuiting = true;
+  app.quit();
+}
+
+// 显示主窗口（迷你模式下退出迷你模式）
+function showMainWindow() {
+  if (miniWin) {
+    // 关闭迷你播放器后会恢复主窗口
+    miniWin.close();
+    return;
+  }
+  if (win) {
+    if (win.isMinimized()) {
+      win.restore();
+    }
+    win.show();
+    win.focus();
+  }
+}
+
+// 主窗口状态（位置大小、最大化、全屏和所在屏幕），保存在 userData 目录
+interface MainWindowState {
+  // 还原（非最大化、非全屏）时的位置和大小
+  bounds: Electron.Rectangle;
+  isMaximized: boolean;
+  isFullScreen: boolean;
+  displayId: number | null;
+}
+
+const mainWindowStatePath = path.join(app.getPath("userData"), "window-state.json");
+const DEFAULT_MAIN_WINDOW_WIDTH = 1200;
+const DEFAULT_MAIN_WINDOW_HEIGHT = 700;
+
+// 读取主窗口状态；保存时所在的屏幕已断开或位置不可见时，在主屏幕居中打开
+function loadMainWindowState(): {
+  bounds: Partial<Electron.Rectangle>;
+  isMaximized: boolean;
+  isFullScreen: boolean;
+} {
+  const defaults = {
+    bounds: { width: DEFAULT_MAIN_WINDOW_WIDTH, height: DEFAULT_MAIN_WINDOW_HEIGHT },
+    isMaximized: false,
+    isFullScreen: false,
+  };
+
+  try {
+    if (!existsSync(mainWindowStatePath)) return defaults;
+    const saved: Partial<MainWindowState> = JSON.parse(
+      readFileSync(mainWindowStatePath, "utf-8")
+    );
+    const bounds = saved.bounds;
+    if (
+      !bounds ||
+      ![bounds.x, bounds.y, bounds.width, bounds.height].every(Number.isFinite)
+    ) {
+      return defaults;
+    }
+
+    const display = screen
+      .getAllDisplays()
+      .find((item) => item.id === saved.displayId);
+    const isMaximized = saved.isMaximized === true;
+    const isFullScreen = saved.isFullScreen === true;
+
+    if (!display || !isBoundsVisible(bounds)) {
+      // 屏幕不在了：只保留大小（不超过主屏幕），最大化/全屏状态仍然恢复
+      const area = screen.getPrimaryDisplay().workArea;
+      return {
+        bounds: {
+          width: Math.min(bounds.width, area.width),
+          height: Math.min(bounds.height, area.height),
+        },
+        isMaximized,
+        isFullScreen,
+      };
+    }
+
+    // 屏幕分辨率变小后，窗口不超过屏幕工作区
+    const area = display.workArea;
+    const width = Math.min(bounds.width, area.width);
+    const height = Math.min(bounds.height, area.height);
+    return {
+      bounds: {
+        x: Math.min(Math.max(bounds.x, area.x), area.x + area.width - width),
+        y: Math.min(Math.max(bounds.y, area.y), area.y + area.height - height),
+        width,
+        height,
+      },
+      isMaximized,
+      isFullScreen,
+    };
+  } catch (error) {
+    console.error("读取主窗口状态失败:", error);
+    return defaults;
+  }
+}
+
+function getMainWindowState(window: BrowserWindow): MainWindowState {
+  const bounds = window.getNormalBounds();
+  return {
+    bounds,
+    isMaximized: window.isMaximized(),
+    isFullScreen: window.isFullScreen(),
+    displayId: screen.getDisplayMatching(bounds).id,
+  };
+}
+
+// 监听主窗口状态变化并保存（防抖）；窗口关闭时立即保存，避免退出时丢失
+function trackMainWindowState(window: BrowserWindow) {
+  let timer: NodeJS.Timeout | null = null;
+  const save = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (window.isDestroyed()) return;
+      fs.writeFile(
+        mainWindowStatePath,
+        JSON.stringify(getMainWindowState(window))
+      ).catch((error) => console.error("保存主窗口状态失败:", error));
+    }, 500);
+  };
+
+  window.on("moved", save);
+  window.on("resized", save);
+  window.on("maximize", save);
+  window.on("unmaximize", save);
+  window.on("enter-full-screen", save);
+  window.on("leave-full-screen", save);
+  window.on("close", () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    try {
+      writeFileSync(mainWindowStatePath, JSON.stringify(getMainWindowState(window)));
+    } catch (error) {
+      console.error("保存主窗口状态失败:", error);
     }
   });
 }
 
 function createWindow() {
+  const windowState = loadMainWindowState();
+  mainWindowReady = false;
+
   win = new BrowserWindow({
     icon: path.join(process.env.VITE_PUBLIC, "icon.ico"),
-    width: 1200,
-    height: 700,
+    ...windowState.bounds,
+    // 先不显示，恢复最大化/全屏后再显示，避免窗口先以还原大小闪一下
+    show: false,
     webPreferences: {
       preload: path.join(__dirname, "preload.mjs"),
       devTools: !app.isPackaged, // 仅开发环境启用开发工具
@@ -90,9 +343,22 @@ function createWindow() {
       nodeIntegration: false, // 保持禁用
       contextIsolation: true, // 保持启用
       allowRunningInsecureContent: false,
+      // 迷你模式下主窗口隐藏但仍负责播放，不能降低后台定时器频率
+      backgroundThrottling: false,
     },
   });
 
+  if (windowState.isMaximized) {
+    win.maximize();
+  }
+  if (windowState.isFullScreen) {
+    win.setFullScreen(true);
+  }
+  win.once("ready-to-show", () => {
+    win?.show();
+  });
+  trackMainWindowState(win);
+
   // 开发环境下自动打开开发者工具
   if (VITE_DEV_SERVER_URL) {
     win.webContents.openDevTools();
@@ -119,6 +385,14 @@ function createWindow() {
     }
     // 否则正常关闭退出程序
   });
+
+  // 主窗口关闭后一并关闭桌面歌词和迷你播放器，否则程序无法退出
+  win.on("closed", () => {
+    win = null;
+    mainWindowReady = false;
+    lyricWin?.destroy();
+    miniWin?.destroy();
+  });
 }
 
 // Quit when all windows are closed, except on macOS. There, it's common
@@ -280,6 +554,54 @@ ipcMain.handle(
   }
 );
 
+// 合并更新音频缓存元数据（如后台分析完成的响度信息）
+ipcMain.handle(
+  "update-audio-cache-metadata",
+  async (_event, songId: string, patch: Record<string, unknown>) => {
+    try {
+      const metadataFilePath = path.join(audioCacheDir, `${songId}.meta.json`);
+      if (!existsSync(metadataFilePath)) {
+        return { success: false, error: "缓存不存在" };
+      }
+
+      const metadata = JSON.parse(await fs.readFile(metadataFilePath, "utf-8"));
+      await fs.writeFile(
+        metadataFilePath,
+        JSON.stringify({ ...metadata, ...patch }, null, 2)
+      );
+      return { success: true };
+    } catch (error: any) {
+      console.error("更新音频缓存元数据失败:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// 读取所有音频缓存的元数据（用于计算专辑响度）
+ipcMain.handle("list-audio-cache-metadata", async () => {
+  try {
+    if (!existsSync(audioCacheDir)) {
+      return { success: true, metadata: [] };
+    }
+
+    const files = await fs.readdir(audioCacheDir);
+    const metadata = [];
+    for (const file of files) {
+      if (!file.endsWith(".meta.json")) continue;
+      try {
+        const content = await fs.readFile(path.join(audioCacheDir, file), "utf-8");
+        metadata.push(JSON.parse(content));
+      } catch {
+        // 跳过损坏的元数据文件
+      }
+    }
+    return { success: true, metadata };
+  } catch (error: any) {
+    console.error("读取音频缓存元数据失败:", error);
+    return { success: false, error: error.message, metadata: [] };
+  }
+});
+
 // 获取试听缓存大小
 ipcMain.handle("get-audio-cache-size", async () => {
   try {
@@ -489,18 +811,7 @@ ipcMain.handle("show-open-dialog", async () => {
     }
 
     // 读取每个文件的信息并返回
-    const filesInfo = await Promise.all(
-      result.filePaths.map(async (filePath) => {
-        const stats = await fs.stat(filePath);
-        const buffer = await fs.readFile(filePath);
-        return {
-          path: filePath,
-          name: path.basename(filePath),
-          size: stats.size,
-          buffer: buffer.buffer,
-        };
-      })
-    );
+    const filesInfo = await Promise.all(result.filePaths.map(readAudioFile));
 
     return { success: true, files: filesInfo };
   } catch (error: any) {
@@ -509,6 +820,18 @@ ipcMain.handle("show-open-dialog", async () => {
   }
 });
 
+// 读取音频文件，返回给渲染进程导入
+async function readAudioFile(filePath: string): Promise<AudioFileInfo> {
+  const stats = await fs.stat(filePath);
+  const buffer = await fs.readFile(filePath);
+  return {
+    path: filePath,
+    name: path.basename(filePath),
+    size: stats.size,
+    buffer: buffer.buffer,
+  };
+}
+
 // IPC 处理：控制是否最小化到托盘
 ipcMain.handle("set-close-to-tray", async (_event, enabled: boolean) => {
   closeToTray = enabled; // 更新全局变量
@@ -531,7 +854,965 @@ ipcMain.handle("hide-window", async () => {
   return { success: true };
 });
 
+// IPC 处理：更新托盘中显示的播放状态
+ipcMain.handle("update-tray-state", async (_event, state: TrayPlayerState) => {
+  trayPlayerState = state;
+  updateTray();
+  return { success: true };
+});
+
+// 窗口位置和大小
+
+// 位置是否在某个屏幕内（屏幕断开后保存的位置可能已不可见）
+function isBoundsVisible(bounds: Electron.Rectangle) {
+  return screen.getAllDisplays().some(({ workArea: area }) =>
+    bounds.x < area.x + area.width &&
+    bounds.x + bounds.width > area.x &&
+    bounds.y < area.y + area.height &&
+    bounds.y + bounds.height > area.y
+  );
+}
+
+// 读取保存的窗口位置，文件不存在或位置不在任何屏幕内时使用默认值
+async function loadWindowBounds(
+  filePath: string,
+  defaults: Electron.Rectangle
+): Promise<Electron.Rectangle> {
+  try {
+    if (!existsSync(filePath)) return defaults;
+    const saved = { ...defaults, ...JSON.parse(await fs.readFile(filePath, "utf-8")) };
+    return isBoundsVisible(saved) ? saved : defaults;
+  } catch (error) {
+    console.error("读取窗口位置失败:", error);
+    return defaults;
+  }
+}
+
+// 监听窗口移动和缩放，保存位置（防抖，拖动过程中不频繁写文件）
+function trackWindowBounds(window: BrowserWindow, filePath: string) {
+  let timer: NodeJS.Timeout | null = null;
+  const save = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      if (window.isDestroyed()) return;
+      fs.writeFile(filePath, JSON.stringify(window.getBounds())).catch((error) =>
+        console.error("保存窗口位置失败:", error)
+      );
+    }, 500);
+  };
+  window.on("moved", save);
+  window.on("resized", save);
+}
+
+// 桌面歌词
+
+// 桌面歌词窗口位置和大小的保存路径
+const desktopLyricBoundsPath = path.join(
+  app.getPath("userData"),
+  "desktop-lyric-bounds.json"
+);
+
+// 默认放在主屏幕底部居中
+function getDefaultDesktopLyricBounds(): Electron.Rectangle {
+  const workArea = screen.getPrimaryDisplay().workArea;
+  return {
+    width: 800,
+    height: 160,
+    x: Math.round(workArea.x + (workArea.width - 800) / 2),
+    y: workArea.y + workArea.height - 200,
+  };
+}
+
+// 锁定时鼠标穿透（forward 让窗口仍能收到鼠标移动，用于显示解锁按钮）
+function applyDesktopLyricLock() {
+  lyricWin?.setIgnoreMouseEvents(desktopLyricOptions.locked, { forward: true });
+}
+
+async function createLyricWindow() {
+  const bounds = await loadWindowBounds(
+    desktopLyricBoundsPath,
+    getDefaultDesktopLyricBounds()
+  );
+  // 读取位置期间可能已被关闭
+  if (!desktopLyricOptions.enabled || lyricWin) return;
+
+  lyricWin = new BrowserWindow({
+    ...bounds,
+    minWidth: 400,
+    minHeight: 80,
+    frame: false,
+    transparent: true,
+    alwaysOnTop: true,
+    skipTaskbar: true,
+    hasShadow: false,
+    resizable: true,
+    maximizable: false,
+    minimizable: false,
+    fullscreenable: false,
+    show: false,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.mjs"),
+      devTools: !app.isPackaged,
+      webSecurity: false,
+      nodeIntegration: false,
+      contextIsolation: true,
+      allowRunningInsecureContent: false,
+    },
+  });
+
+  // 显示在全屏应用之上
+  lyricWin.setAlwaysOnTop(true, "screen-saver");
+  applyDesktopLyricLock();
+
+  if (VITE_DEV_SERVER_URL) {
+    lyricWin.loadURL(`${VITE_DEV_SERVER_URL}#/desktop-lyric`);
+  } else {
+    lyricWin.loadFile(path.join(RENDERER_DIST, "index.html"), {
+      hash: "/desktop-lyric",
+    });
+  }
+
+  lyricWin.once("ready-to-show", () => {
+    lyricWin?.showInactive();
+  });
+  trackWindowBounds(lyricWin, desktopLyricBoundsPath);
+  lyricWin.on("closed", () => {
+    lyricWin = null;
+    // 被系统关闭（如 Alt+F4）时同步主窗口的设置
+    if (desktopLyricOptions.enabled) {
+      win?.webContents.send("desktop-lyric-command", "close");
+    }
+  });
+}
+
+// IPC 处理：打开/关闭、锁定/解锁桌面歌词
+ipcMain.handle(
+  "set-desktop-lyric",
+  async (_event, options: { enabled: boolean; locked: boolean }) => {
+    desktopLyricOptions = options;
+
+    if (options.enabled) {
+      if (lyricWin) {
+        applyDesktopLyricLock();
+      } else {
+        await createLyricWindow();
+      }
+    } else if (lyricWin) {
+      lyricWin.close();
+    }
+
+    updateTray();
+    return { success: true };
+  }
+);
+
+// 主窗口 → 桌面歌词窗口：转发歌词和播放状态
+ipcMain.on("desktop-lyric-state", (_event, message) => {
+  if (lyricWin && !lyricWin.isDestroyed()) {
+    lyricWin.webContents.send("desktop-lyric-state", message);
+  }
+});
+
+// 桌面歌词窗口 → 主窗口：转发操作（锁定、关闭、播放控制等）
+ipcMain.on("desktop-lyric-command", (_event, command: string) => {
+  win?.webContents.send("desktop-lyric-command", command);
+});
+
+// 锁定状态下鼠标移到解锁按钮上时暂时取消穿透
+ipcMain.on("desktop-lyric-ignore-mouse", (_event, ignore: boolean) => {
+  if (!desktopLyricOptions.locked) return;
+  lyricWin?.setIgnoreMouseEvents(ignore, { forward: true });
+});
+
+// 迷你播放器
+
+// 迷你播放器窗口位置和大小的保存路径
+const miniPlayerBoundsPath = path.join(
+  app.getPath("userData"),
+  "mini-player-bounds.json"
+);
+
+// 默认放在主屏幕右下角
+function getDefaultMiniPlayerBounds(): Electron.Rectangle {
+  const workArea = screen.getPrimaryDisplay().workArea;
+  return {
+    width: 320,
+    height: 90,
+    x: workArea.x + workArea.width - 340,
+    y: workArea.y + workArea.height - 110,
+  };
+}
+
+async function createMiniWindow() {
+  const bounds = await loadWindowBounds(
+    miniPlayerBoundsPath,
+    getDefaultMiniPlayerBounds()
+  );
+  if (miniWin) return;
+
+  miniWin = new BrowserWindow({
+    ...bounds,
+    icon: path.join(process.env.VITE_PUBLIC, "icon.ico"),
+    minWidth: 280,
+    minHeight: 80,
+    maxHeight: 160,
+    frame: false,
+    alwaysOnTop: true,
+    resizable: true,
+    maximizable: false,
+    fullscreenable: false,
+    show: false,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.mjs"),
+      devTools: !app.isPackaged,
+      webSecurity: false,
+      nodeIntegration: false,
+      contextIsolation: true,
+      allowRunningInsecureContent: false,
+    },
+  });
+
+  if (VITE_DEV_SERVER_URL) {
+    miniWin.loadURL(`${VITE_DEV_SERVER_URL}#/mini-player`);
+  } else {
+    miniWin.loadFile(path.join(RENDERER_DIST, "index.html"), {
+      hash: "/mini-player",
+    });
+  }
+
+  miniWin.once("ready-to-show", () => {
+    miniWin?.show();
+  });
+  trackWindowBounds(miniWin, miniPlayerBoundsPath);
+  miniWin.on("closed", () => {
+    miniWin = null;
+    // 退出迷你模式时恢复主窗口（主窗口已关闭时 win 为 null）
+    win?.webContents.send("mini-player-command", { type: "closed" });
+    win?.show();
+    win?.focus();
+    updateTray();
+  });
+}
+
+// 切换迷你模式：迷你播放器和主窗口只显示一个
+async function setMiniPlayerMode(enabled: boolean) {
+  if (enabled) {
+    if (miniWin) {
+      miniWin.show();
+    } else {
+      await createMiniWindow();
+    }
+    win?.hide();
+  } else if (miniWin) {
+    // 关闭后会恢复主窗口
+    miniWin.close();
+  }
+  updateTray();
+}
+
+// IPC 处理：切换迷你模式
+ipcMain.handle("toggle-mini-player", async () => {
+  await setMiniPlayerMode(!miniWin);
+  return { success: true, enabled: !!miniWin };
+});
+
+// 主窗口 → 迷你播放器：转发播放状态
+ipcMain.on("mini-player-state", (_event, state) => {
+  if (miniWin && !miniWin.isDestroyed()) {
+    miniWin.webContents.send("mini-player-state", state);
+  }
+});
+
+// 迷你播放器 → 主窗口：转发操作
+ipcMain.on("mini-player-command", (_event, command) => {
+  win?.webContents.send("mini-player-command", command);
+});
+
+// 全局快捷键
+
+// 显示/隐藏主窗口
+function toggleWindowVisibility() {
+  if (!win) return;
+  if (win.isVisible() && win.isFocused()) {
+    win.hide();
+  } else {
+    win.show();
+    win.focus();
+  }
+}
+
+// 触发全局快捷键：显示/隐藏窗口在主进程处理，其余转发给渲染进程
+function handleGlobalShortcut(action: string) {
+  if (action === "toggleWindow") {
+    toggleWindowVisibility();
+    return;
+  }
+  win?.webContents.send("global-shortcut", action);
+}
+
+// IPC 处理：注册全局快捷键（每次都会替换之前注册的全部快捷键）
+// bindings: { action: accelerator }，返回注册失败（被占用或格式无效）的 action 列表
+ipcMain.handle(
+  "register-global-shortcuts",
+  async (_event, bindings: Record<string, string>) => {
+    globalShortcut.unregisterAll();
+
+    const failed: string[] = [];
+    for (const [action, accelerator] of Object.entries(bindings)) {
+      if (!accelerator) continue;
+      try {
+        const registered = globalShortcut.register(accelerator, () =>
+          handleGlobalShortcut(action)
+        );
+        if (!registered) {
+          failed.push(action);
+        }
+      } catch (error) {
+        // Accelerator 格式无效时会抛出异常
+        console.error(`注册全局快捷键失败 [${action}: ${accelerator}]:`, error);
+        failed.push(action);
+      }
+    }
+
+    return { success: true, failed };
+  }
+);
+
+app.on("will-quit", () => {
+  globalShortcut.unregisterAll();
+});
+
+// 远程控制：把外部控制命令转交给主窗口，并向主窗口查询播放状态等数据
+
+// 主窗口未就绪时返回 false
+function sendRemoteCommand(command: RemoteCommand) {
+  if (win && mainWindowReady) {
+    win.webContents.send("remote-command", command);
+    return true;
+  }
+  console.warn("主窗口未就绪，忽略控制命令:", command.type);
+  return false;
+}
+
+let remoteQueryId = 0;
+const remoteQueryResolvers = new Map<
+  number,
+  (result: RemoteQueryResult | null) => void
+>();
+
+// 向主窗口查询数据，主窗口未就绪或超时返回 null
+function queryMainWindow(
+  query: RemoteQuery,
+  timeout = 2000
+): Promise<RemoteQueryResult | null> {
+  if (!win || !mainWindowReady) return Promise.resolve(null);
+
+  const requestId = ++remoteQueryId;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      remoteQueryResolvers.delete(requestId);
+      resolve(null);
+    }, timeout);
+    remoteQueryResolvers.set(requestId, (result) => {
+      clearTimeout(timer);
+      remoteQueryResolvers.delete(requestId);
+      resolve(result);
+    });
+    win!.webContents.send("remote-query", requestId, query);
+  });
+}
+
+ipcMain.on("remote-query-result", (_event, requestId: number, result: RemoteQueryResult) => {
+  remoteQueryResolvers.get(requestId)?.(result);
+});
+
+async function getPlayerStatus() {
+  const result = await queryMainWindow({ type: "status" });
+  return result?.success ? (result.data as RemotePlayerStatus) : null;
+}
+
+// 局域网远程控制服务（HTTP 接口 + WebSocket 推送播放状态），由设置开启
+
+let remoteServer: RemoteServer | null = null;
+// 当前生效的配置，配置不变时不重启服务
+let remoteControlConfig: RemoteControlConfig | null = null;
+let remoteControlStatus: RemoteControlStatus = { running: false, urls: [] };
+// 配置变化依次处理，避免同时启动和关闭服务
+let remoteControlTask: Promise<void> = Promise.resolve();
+// 主窗口最近推送的播放状态，新的 WebSocket 连接建立后立即发送
+let lastRemotePlayerState: RemotePlayerStatus | null = null;
+
+// 执行控制命令，主窗口未就绪时返回 503
+function runRemoteCommand(command: RemoteCommand) {
+  if (!sendRemoteCommand(command)) {
+    throw new RemoteApiError(503, "播放器尚未就绪");
+  }
+  return null;
+}
+
+async function runRemoteQuery(query: RemoteQuery, timeout?: number) {
+  const result = await queryMainWindow(query, timeout);
+  if (!result) {
+    throw new RemoteApiError(503, "播放器尚未就绪");
+  }
+  if (!result.success) {
+    throw new RemoteApiError(502, result.message);
+  }
+  return result.data;
+}
+
+// 远程控制接口
+async function handleRemoteApi({ method, path: apiPath, query, body }: RemoteApiRequest) {
+  switch (`${method} ${apiPath}`) {
+    case "GET /status":
+      return runRemoteQuery({ type: "status" });
+    case "GET /queue":
+      return runRemoteQuery({ type: "queue" });
+    case "GET /search": {
+      const keyword = query.get("keyword")?.trim();
+      if (!keyword) {
+        throw new RemoteApiError(400, "缺少 keyword 参数");
+      }
+      const limit = Math.min(100, Math.max(1, Number(query.get("limit")) || 30));
+      // 搜索需要请求音乐接口，超时时间放宽
+      return runRemoteQuery({ type: "search", keyword, limit }, 15000);
+    }
+    case "POST /play":
+      return runRemoteCommand({ type: "play" });
+    case "POST /pause":
+      return runRemoteCommand({ type: "pause" });
+    case "POST /play-pause":
+      return runRemoteCommand({ type: "playPause" });
+    case "POST /next":
+      return runRemoteCommand({ type: "next" });
+    case "POST /prev":
+      return runRemoteCommand({ type: "prev" });
+    case "POST /seek": {
+      const position = Number(body.position);
+      if (!Number.isFinite(position) || position < 0) {
+        throw new RemoteApiError(400, "position 需要大于等于 0 的秒数");
+      }
+      return runRemoteCommand({ type: "seek", position });
+    }
+    case "POST /volume": {
+      const volume = Number(body.volume);
+      if (!Number.isFinite(volume) || volume < 0 || volume > 100) {
+        throw new RemoteApiError(400, "volume 需要 0-100 之间的数字");
+      }
+      return runRemoteCommand({ type: "volume", value: volume });
+    }
+    default:
+      throw new RemoteApiError(404, "接口不存在");
+  }
+}
+
+async function applyRemoteControlConfig(config: RemoteControlConfig) {
+  if (JSON.stringify(config) === JSON.stringify(remoteControlConfig)) return;
+  remoteControlConfig = config;
+
+  if (remoteServer) {
+    await remoteServer.close();
+    remoteServer = null;
+  }
+  remoteControlStatus = { running: false, urls: [] };
+  if (!config.enabled || !config.token) return;
+
+  try {
+    remoteServer = await startRemoteServer({
+      port: config.port,
+      token: config.token,
+      allowLan: config.allowLan,
+      handleApi: handleRemoteApi,
+      getInitialMessage: async () => {
+        const status = lastRemotePlayerState || (await getPlayerStatus());
+        return status ? { type: "state", data: status } : null;
+      },
+    });
+    remoteControlStatus = { running: true, urls: remoteServer.urls };
+  } catch (error: any) {
+    console.error("启动远程控制服务失败:", error);
+    remoteControlStatus = { running: false, urls: [], error: error.message };
+    // 下次设置时重试
+    remoteControlConfig = null;
+  }
+}
+
+// IPC 处理：设置远程控制服务，返回运行状态
+ipcMain.handle("set-remote-control", async (_event, config: RemoteControlConfig) => {
+  remoteControlTask = remoteControlTask.then(() => applyRemoteControlConfig(config));
+  await remoteControlTask;
+  return remoteControlStatus;
+});
+
+// 主窗口推送播放状态，转发给 WebSocket 客户端
+ipcMain.on("remote-player-state", (_event, state: RemotePlayerStatus) => {
+  lastRemotePlayerState = state;
+  remoteServer?.broadcast({ type: "state", data: state });
+});
+
+// 命令行控制：如 --play-pause、--next、--prev、--volume 50、--play-id <id>、--status --json
+// 已有实例在运行时，由再次启动的进程解析参数，通过单实例锁的附加数据交给已运行的实例执行
+
+// 通过单实例锁传给已运行实例的数据（需要能序列化）
+type CliRequest = {
+  commands: RemoteCommand[];
+  playId: string | null;
+  // 需要输出状态时，已运行的实例把状态写入这个临时文件
+  statusFile: string | null;
+};
+
+const CLI_STATUS_FILE_PATTERN = /^qfmusic-status-\d+\.json$/;
+// 等待已运行实例写入状态的最长时间
+const CLI_STATUS_TIMEOUT = 3000;
+
+function parseCliArgs(argv: string[]) {
+  const commands: RemoteCommand[] = [];
+  let playId: string | null = null;
+  let status = false;
+  let json = false;
+
+  for (let i = 1; i < argv.length; i++) {
+    // 同时支持 --volume 50 和 --volume=50
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    const takeValue = () => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case "--play-pause":
+        commands.push({ type: "playPause" });
+        break;
+      case "--next":
+        commands.push({ type: "next" });
+        break;
+      case "--prev":
+        commands.push({ type: "prev" });
+        break;
+      case "--volume": {
+        const value = Number(takeValue());
+        if (Number.isFinite(value)) {
+          commands.push({ type: "volume", value: Math.min(100, Math.max(0, value)) });
+        } else {
+          console.warn("--volume 需要 0-100 之间的数字");
+        }
+        break;
+      }
+      case "--play-id": {
+        const id = takeValue();
+        if (id && /^\d+$/.test(id)) {
+          playId = id;
+        } else {
+          console.warn("--play-id 需要歌曲 ID");
+        }
+        break;
+      }
+      case "--status":
+        status = true;
+        break;
+      case "--json":
+        json = true;
+        break;
+    }
+  }
+
+  return { commands, playId, status, json };
+}
+
+function formatCliTime(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds || 0));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+// 输出播放状态到标准输出
+function writeCliStatus(running: boolean, status: RemotePlayerStatus | null, json: boolean) {
+  if (json) {
+    process.stdout.write(`${JSON.stringify({ running, ready: !!status, ...status })}\n`);
+    return;
+  }
+
+  if (!running) {
+    process.stdout.write("清风音乐未运行\n");
+    return;
+  }
+  if (!status) {
+    process.stdout.write("播放器尚未就绪\n");
+    return;
+  }
+
+  const song = status.song;
+  const lines = [
+    `状态：${status.isPlaying ? "播放中" : "已暂停"}`,
+    `歌曲：${song ? `${song.title}${song.artist ? ` - ${song.artist}` : ""}（${song.id}）` : "无"}`,
+    `进度：${formatCliTime(status.position)} / ${formatCliTime(status.duration)}`,
+    `模式：${status.playModeText}`,
+    `音量：${status.volume}%`,
+  ];
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+// 再次启动的进程：等待已运行的实例写入状态后输出，返回退出码
+async function printCliStatus(statusFile: string, json: boolean) {
+  const deadline = Date.now() + CLI_STATUS_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (existsSync(statusFile)) {
+      try {
+        const status: RemotePlayerStatus | null = JSON.parse(
+          await fs.readFile(statusFile, "utf-8")
+        );
+        writeCliStatus(true, status, json);
+        return status ? 0 : 1;
+      } catch (error) {
+        console.error("读取播放状态失败:", error);
+        return 1;
+      } finally {
+        await fs.rm(statusFile, { force: true });
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  process.stderr.write("获取播放状态超时\n");
+  return 1;
+}
+
+// 已运行的实例：执行再次启动时传来的控制命令
+async function handleCliRequest(request: Partial<CliRequest>) {
+  // 首次启动时主窗口还没有加载完成，命令先缓存，主窗口就绪后再发送
+  request.commands?.forEach((command) => {
+    if (win && mainWindowReady) {
+      sendRemoteCommand(command);
+    } else {
+      pendingCliCommands.push(command);
+    }
+  });
+  if (request.playId) {
+    dispatchExternalOpen({ type: "song", id: request.playId });
+  }
+
+  // 只写入系统临时目录中约定名称的文件
+  const statusFile = request.statusFile;
+  if (
+    !statusFile ||
+    path.dirname(statusFile) !== app.getPath("temp") ||
+    !CLI_STATUS_FILE_PATTERN.test(path.basename(statusFile))
+  ) {
+    return;
+  }
+
+  // 命令按顺序发送，状态在命令执行之后读取；先写临时文件再改名，避免读到写了一半的文件
+  const status = await getPlayerStatus();
+  const tempFile = `${statusFile}.tmp`;
+  try {
+    await fs.writeFile(tempFile, JSON.stringify(status));
+    await fs.rename(tempFile, statusFile);
+  } catch (error) {
+    console.error("写入播放状态失败:", error);
+  }
+}
+
+// 单实例、打开文件和 qfmusic:// 链接
+
+const cliArgs = parseCliArgs(process.argv);
+const cliRequest: CliRequest = {
+  commands: cliArgs.commands,
+  playId: cliArgs.playId,
+  statusFile: cliArgs.status
+    ? path.join(app.getPath("temp"), `qfmusic-status-${process.pid}.json`)
+    : null,
+};
+
+// 只允许运行一个实例，再次启动时把命令行参数交给已运行的实例
+const gotSingleInstanceLock = app.requestSingleInstanceLock(cliRequest);
+if (!gotSingleInstanceLock) {
+  if (cliRequest.statusFile) {
+    printCliStatus(cliRequest.statusFile, cliArgs.json).then((code) => app.exit(code));
+  } else {
+    app.quit();
+  }
+} else if (cliArgs.status) {
+  // 没有正在运行的实例时只输出状态，不启动界面
+  writeCliStatus(false, null, cliArgs.json);
+  app.exit(1);
+} else {
+  app.on("second-instance", (_event, argv, workingDirectory, additionalData) => {
+    const request = additionalData as Partial<CliRequest> | undefined;
+    // 只带控制参数时在后台执行，不打扰当前窗口
+    const isCliRequest =
+      !!request?.commands?.length || !!request?.playId || !!request?.statusFile;
+    if (!isCliRequest) {
+      showMainWindow();
+    }
+    handleCommandLine(argv, workingDirectory);
+    if (request) {
+      handleCliRequest(request);
+    }
+  });
+}
+
+const APP_PROTOCOL = "qfmusic";
+const AUDIO_FILE_EXTENSIONS = [".mp3", ".flac", ".wav", ".ogg", ".m4a", ".aac", ".wma"];
+
+interface AudioFileInfo {
+  path: string;
+  name: string;
+  size: number;
+  buffer: ArrayBuffer;
+}
+
+// 交给主窗口处理的打开请求
+type ExternalOpenRequest =
+  | { type: "files"; files: AudioFileInfo[] }
+  | { type: "song"; id: string };
+
+// 主窗口加载完成前收到的请求先缓存，由主窗口取走
+let pendingExternalOpenRequests: ExternalOpenRequest[] = [];
+// 主窗口加载完成前收到的命令行控制命令
+let pendingCliCommands: RemoteCommand[] = [];
+// 主窗口是否已加载完成（取走缓存的请求之后），之后的请求和控制命令直接发给主窗口
+let mainWindowReady = false;
+
+function dispatchExternalOpen(request: ExternalOpenRequest) {
+  if (win && mainWindowReady) {
+    win.webContents.send("external-open", request);
+  } else {
+    pendingExternalOpenRequests.push(request);
+  }
+}
+
+// 打开音频文件：读取后交给主窗口导入并播放
+async function openAudioFiles(filePaths: string[]) {
+  const results = await Promise.allSettled(filePaths.map(readAudioFile));
+  const files = results.flatMap((result) => {
+    if (result.status === "fulfilled") return [result.value];
+    console.error("读取音频文件失败:", result.reason);
+    return [];
+  });
+  if (files.length > 0) {
+    dispatchExternalOpen({ type: "files", files });
+  }
+}
+
+// 解析 qfmusic://song/<id> 链接
+function openProtocolUrl(url: string) {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const id = pathname.replace(/^\/+|\/+$/g, "");
+    if (hostname === "song" && /^\d+$/.test(id)) {
+      dispatchExternalOpen({ type: "song", id });
+      return;
+    }
+  } catch {
+    // 格式错误的链接
+  }
+  console.warn("无法识别的链接:", url);
+}
+
+// 处理命令行参数中的音频文件和 qfmusic:// 链接（首次启动和再次启动时）
+function handleCommandLine(argv: string[], workingDirectory = process.cwd()) {
+  const filePaths: string[] = [];
+
+  // 第一个参数是程序本身，开发环境下后面还有入口脚本路径，不是音频文件会被忽略
+  for (const arg of argv.slice(1)) {
+    if (arg.toLowerCase().startsWith(`${APP_PROTOCOL}://`)) {
+      openProtocolUrl(arg);
+      continue;
+    }
+    if (arg.startsWith("-")) continue;
+
+    const filePath = path.resolve(workingDirectory, arg);
+    if (
+      AUDIO_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) &&
+      existsSync(filePath)
+    ) {
+      filePaths.push(filePath);
+    }
+  }
+
+  if (filePaths.length > 0) {
+    openAudioFiles(filePaths);
+  }
+}
+
+// 注册 qfmusic:// 协议（开发环境需要带上入口脚本路径）
+function registerProtocolClient() {
+  if (process.defaultApp && process.argv.length >= 2) {
+    app.setAsDefaultProtocolClient(APP_PROTOCOL, process.execPath, [
+      path.resolve(process.argv[1]),
+    ]);
+  } else {
+    app.setAsDefaultProtocolClient(APP_PROTOCOL);
+  }
+}
+
+// macOS 通过事件而不是命令行参数传入文件和链接
+app.on("open-file", (event, filePath) => {
+  event.preventDefault();
+  showMainWindow();
+  openAudioFiles([filePath]);
+});
+
+app.on("open-url", (event, url) => {
+  event.preventDefault();
+  showMainWindow();
+  openProtocolUrl(url);
+});
+
+// IPC 处理：主窗口加载完成后取走缓存的请求，之后的请求直接发送
+ipcMain.handle("take-external-open-requests", async (event) => {
+  if (event.sender !== win?.webContents) return [];
+  mainWindowReady = true;
+  // 控制监听在主窗口取走请求之前已注册，缓存的命令可以直接发送
+  const commands = pendingCliCommands;
+  pendingCliCommands = [];
+  commands.forEach(sendRemoteCommand);
+  const requests = pendingExternalOpenRequests;
+  pendingExternalOpenRequests = [];
+  return requests;
+});
+
+// MPRIS（仅 Linux）：通过 D-Bus 让 playerctl、桌面环境的媒体控件显示和控制播放
+let mprisService: MprisService | null = null;
+
+// 只有存在会话总线时才提供 MPRIS，没有会话总线时保留 Chromium 的默认行为
+const hasSessionBus = process.platform === "linux" && !!process.env.DBUS_SESSION_BUS_ADDRESS;
+
+// 关闭 Chromium 根据媒体会话自动注册的 MPRIS 服务，避免媒体控件中出现两个播放器
+if (hasSessionBus) {
+  app.commandLine.appendSwitch("disable-features", "MediaSessionService");
+}
+
+async function startMpris() {
+  try {
+    mprisService = await startMprisService({
+      identity: "清风音乐",
+      supportedUriSchemes: ["file", APP_PROTOCOL],
+      supportedMimeTypes: [
+        "audio/mpeg",
+        "audio/flac",
+        "audio/wav",
+        "audio/ogg",
+        "audio/mp4",
+        "audio/aac",
+        "audio/x-ms-wma",
+      ],
+      minimumRate: 0.5,
+      maximumRate: 2,
+      onCommand: (command: MprisCommand) => {
+        if (win && mainWindowReady) {
+          win.webContents.send("mpris-command", command);
+        }
+      },
+      onRaise: showMainWindow,
+      onQuit: quitApp,
+      onOpenUri: (uri) => {
+        if (uri.toLowerCase().startsWith("file://")) {
+          openAudioFiles([fileURLToPath(uri)]);
+        } else {
+          openProtocolUrl(uri);
+        }
+      },
+    });
+  } catch (error) {
+    // 会话总线连接失败时不提供 MPRIS
+    console.warn("MPRIS 服务启动失败:", error);
+  }
+}
+
+// 主窗口推送播放状态
+ipcMain.on("update-mpris-state", (_event, state: MprisState) => {
+  mprisService?.update(state);
+});
+
+// 退出时从会话总线注销服务
+app.on("will-quit", () => {
+  mprisService?.close();
+});
+
+// 正在播放分享：发布到 Discord 状态、文本文件、Webhook，发布失败时通知主窗口显示
+// 只在主实例中创建（再次启动的控制进程很快退出，不应连接 Discord 或改写文件）
+function setupNowPlaying() {
+  const nowPlayingPublisher = createNowPlayingPublisher((status) => {
+    win?.webContents.send("now-playing-status", status);
+  });
+
+  // IPC 处理：设置发布目标，返回各目标的状态
+  ipcMain.handle("set-now-playing-config", async (_event, config: NowPlayingConfig) => {
+    return nowPlayingPublisher.configure(config);
+  });
+
+  // 主窗口推送播放信息
+  ipcMain.on("update-now-playing", (_event, info: NowPlayingInfo) => {
+    nowPlayingPublisher.update(info);
+  });
+
+  // IPC 处理：选择正在播放文本文件的保存位置
+  ipcMain.handle("select-now-playing-file", async () => {
+    const result = await dialog.showSaveDialog({
+      title: "选择正在播放文本文件",
+      defaultPath: "now-playing.txt",
+      filters: [{ name: "文本文件", extensions: ["txt"] }],
+    });
+    return result.canceled ? "" : result.filePath || "";
+  });
+
+  // 退出时清除 Discord 状态、清空文本文件
+  app.on("will-quit", () => {
+    nowPlayingPublisher.close();
+  });
+}
+
+// 听歌记录同步：提交到 Last.fm / ListenBrainz，未提交的记录保存在 userData 目录
+// 只在主实例中创建，避免再次启动的控制进程退出时用旧的队列覆盖主实例保存的队列
+function setupScrobbler() {
+  const scrobbler = createScrobbler(
+    path.join(app.getPath("userData"), "scrobble-queue.json"),
+    (status) => {
+      win?.webContents.send("scrobble-status", status);
+    }
+  );
+
+  // IPC 处理：设置提交服务，返回各服务的状态
+  ipcMain.handle("set-scrobble-config", async (_event, config: ScrobbleConfig) => {
+    return scrobbler.configure(config);
+  });
+
+  // IPC 处理：登录 Last.fm，返回用户名和会话密钥
+  ipcMain.handle(
+    "login-lastfm",
+    async (
+      _event,
+      options: { baseUrl: string; apiKey: string; apiSecret: string; username: string; password: string }
+    ) => {
+      try {
+        return { success: true, data: await loginLastfm(options) };
+      } catch (error: any) {
+        return { success: false, message: error?.message || "登录失败" };
+      }
+    }
+  );
+
+  // 主窗口开始播放新歌曲
+  ipcMain.on("scrobble-now-playing", (_event, track: ScrobbleTrack) => {
+    scrobbler.updateNowPlaying(track);
+  });
+
+  // 主窗口判断歌曲已播放足够时长，提交记录
+  ipcMain.on("scrobble-track", (_event, track: ScrobbleTrack) => {
+    scrobbler.scrobble(track);
+  });
+
+  app.on("will-quit", () => {
+    scrobbler.close();
+  });
+}
+
 app.whenReady().then(() => {
+  // 已有实例在运行，当前进程即将退出
+  if (!gotSingleInstanceLock) return;
+
+  registerProtocolClient();
+  setupNowPlaying();
+  setupScrobbler();
+
   // 创建系统托盘
   createTray();
 
@@ -541,4 +1822,10 @@ app.whenReady().then(() => {
     });
   }
   createWindow();
+  handleCommandLine(process.argv);
+  handleCliRequest(cliRequest);
+
+  if (hasSessionBus) {
+    startMpris();
+  }
 });
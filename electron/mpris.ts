@@ -0,0 +1,387 @@
+/**
+ * MPRIS 服务（仅 Linux）
+ * 在会话总线上提供 org.mpris.MediaPlayer2 和 org.mpris.MediaPlayer2.Player，
+ * 让 playerctl、GNOME / KDE 媒体控件可以显示和控制播放；不依赖 Electron，可以在 dbus-run-session 下单独运行
+ */
+
+import { connectSessionBus, DBusError } from "./dbus";
+import type { DBusMessage, DBusReply, Variant } from "./dbus";
+import type { MprisCommand, MprisLoopStatus, MprisState } from "../src/config/mpris";
+
+const BUS_NAME = "org.mpris.MediaPlayer2.qfmusic";
+const OBJECT_PATH = "/org/mpris/MediaPlayer2";
+const ROOT_INTERFACE = "org.mpris.MediaPlayer2";
+const PLAYER_INTERFACE = "org.mpris.MediaPlayer2.Player";
+const PROPERTIES_INTERFACE = "org.freedesktop.DBus.Properties";
+const NO_TRACK = "/org/mpris/MediaPlayer2/TrackList/NoTrack";
+
+// 推送的位置与推算的位置相差超过这个值（秒）时认为发生了跳转，发送 Seeked 信号
+const SEEK_DETECT_THRESHOLD = 1.5;
+
+const LOOP_STATUSES: MprisLoopStatus[] = ["None", "Track", "Playlist"];
+
+const INTROSPECTION_XML = `<!DOCTYPE node PUBLIC "-//freedesktop//DTD D-BUS Object Introspection 1.0//EN"
+ "http://www.freedesktop.org/standards/dbus/1.0/introspect.dtd">
+<node>
+  <interface name="org.freedesktop.DBus.Introspectable">
+    <method name="Introspect"><arg name="xml" type="s" direction="out"/></method>
+  </interface>
+  <interface name="org.freedesktop.DBus.Peer">
+    <method name="Ping"/>
+  </interface>
+  <interface name="org.freedesktop.DBus.Properties">
+    <method name="Get">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="property" type="s" direction="in"/>
+      <arg name="value" type="v" direction="out"/>
+    </method>
+    <method name="GetAll">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="properties" type="a{sv}" direction="out"/>
+    </method>
+    <method name="Set">
+      <arg name="interface" type="s" direction="in"/>
+      <arg name="property" type="s" direction="in"/>
+      <arg name="value" type="v" direction="in"/>
+    </method>
+    <signal name="PropertiesChanged">
+      <arg name="interface" type="s"/>
+      <arg name="changed_properties" type="a{sv}"/>
+      <arg name="invalidated_properties" type="as"/>
+    </signal>
+  </interface>
+  <interface name="org.mpris.MediaPlayer2">
+    <method name="Raise"/>
+    <method name="Quit"/>
+    <property name="CanQuit" type="b" access="read"/>
+    <property name="CanRaise" type="b" access="read"/>
+    <property name="HasTrackList" type="b" access="read"/>
+    <property name="Identity" type="s" access="read"/>
+    <property name="SupportedUriSchemes" type="as" access="read"/>
+    <property name="SupportedMimeTypes" type="as" access="read"/>
+  </interface>
+  <interface name="org.mpris.MediaPlayer2.Player">
+    <method name="Next"/>
+    <method name="Previous"/>
+    <method name="Pause"/>
+    <method name="PlayPause"/>
+    <method name="Stop"/>
+    <method name="Play"/>
+    <method name="Seek"><arg name="Offset" type="x" direction="in"/></method>
+    <method name="SetPosition">
+      <arg name="TrackId" type="o" direction="in"/>
+      <arg name="Position" type="x" direction="in"/>
+    </method>
+    <method name="OpenUri"><arg name="Uri" type="s" direction="in"/></method>
+    <signal name="Seeked"><arg name="Position" type="x"/></signal>
+    <property name="PlaybackStatus" type="s" access="read"/>
+    <property name="LoopStatus" type="s" access="readwrite"/>
+    <property name="Rate" type="d" access="readwrite"/>
+    <property name="Shuffle" type="b" access="readwrite"/>
+    <property name="Metadata" type="a{sv}" access="read"/>
+    <property name="Volume" type="d" access="readwrite"/>
+    <property name="Position" type="x" access="read"/>
+    <property name="MinimumRate" type="d" access="read"/>
+    <property name="MaximumRate" type="d" access="read"/>
+    <property name="CanGoNext" type="b" access="read"/>
+    <property name="CanGoPrevious" type="b" access="read"/>
+    <property name="CanPlay" type="b" access="read"/>
+    <property name="CanPause" type="b" access="read"/>
+    <property name="CanSeek" type="b" access="read"/>
+    <property name="CanControl" type="b" access="read"/>
+  </interface>
+</node>`;
+
+export interface MprisServiceOptions {
+  // 媒体控件中显示的程序名
+  identity: string;
+  // OpenUri 支持的协议和文件类型
+  supportedUriSchemes: string[];
+  supportedMimeTypes: string[];
+  // 播放速度范围
+  minimumRate: number;
+  maximumRate: number;
+  onCommand: (command: MprisCommand) => void;
+  onRaise: () => void;
+  onQuit: () => void;
+  onOpenUri: (uri: string) => void;
+}
+
+export interface MprisService {
+  // 更新播放状态，变化的属性通过 PropertiesChanged 信号通知
+  update: (state: MprisState) => void;
+  close: () => void;
+}
+
+const toMicroseconds = (seconds: number) =>
+  BigInt(Math.max(0, Math.round(seconds * 1_000_000)));
+
+// 歌曲 ID 转为合法的 D-Bus 对象路径
+const getTrackId = (state: MprisState | null) =>
+  state?.song
+    ? `/org/qfmusic/track/${state.song.id.replace(/[^A-Za-z0-9_]/g, "_")}`
+    : NO_TRACK;
+
+// 比较属性值（值中可能有 BigInt）
+const serialize = (value: unknown) =>
+  JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item));
+
+/**
+ * 连接会话总线并注册 MPRIS 服务
+ */
+export async function startMprisService(options: MprisServiceOptions): Promise<MprisService> {
+  const bus = await connectSessionBus();
+  let state: MprisState | null = null;
+
+  // 按推送时刻和播放速度推算当前位置（秒）
+  const getPosition = () => {
+    if (!state) return 0;
+    let position = state.position;
+    if (state.isPlaying) {
+      position += ((Date.now() - state.sentAt) / 1000) * state.rate;
+    }
+    if (state.song?.duration) {
+      position = Math.min(position, state.song.duration);
+    }
+    return position;
+  };
+
+  const getMetadata = (): Record<string, Variant> => {
+    const song = state?.song;
+    if (!song) {
+      return { "mpris:trackid": { signature: "o", value: NO_TRACK } };
+    }
+
+    const metadata: Record<string, Variant> = {
+      "mpris:trackid": { signature: "o", value: getTrackId(state) },
+      "xesam:title": { signature: "s", value: song.title },
+      "xesam:artist": { signature: "as", value: song.artist ? [song.artist] : [] },
+      "xesam:album": { signature: "s", value: song.album },
+    };
+    if (song.duration > 0) {
+      metadata["mpris:length"] = { signature: "x", value: toMicroseconds(song.duration) };
+    }
+    if (song.artUrl) {
+      metadata["mpris:artUrl"] = { signature: "s", value: song.artUrl };
+    }
+    return metadata;
+  };
+
+  const getRootProperties = (): Record<string, Variant> => ({
+    CanQuit: { signature: "b", value: true },
+    CanRaise: { signature: "b", value: true },
+    HasTrackList: { signature: "b", value: false },
+    Identity: { signature: "s", value: options.identity },
+    SupportedUriSchemes: { signature: "as", value: options.supportedUriSchemes },
+    SupportedMimeTypes: { signature: "as", value: options.supportedMimeTypes },
+  });
+
+  const getPlayerProperties = (): Record<string, Variant> => {
+    const hasSong = !!state?.song;
+    return {
+      PlaybackStatus: {
+        signature: "s",
+        value: !hasSong ? "Stopped" : state!.isPlaying ? "Playing" : "Paused",
+      },
+      LoopStatus: { signature: "s", value: state?.loopStatus ?? "Playlist" },
+      Rate: { signature: "d", value: state?.rate ?? 1 },
+      Shuffle: { signature: "b", value: state?.shuffle ?? false },
+      Metadata: { signature: "a{sv}", value: getMetadata() },
+      Volume: { signature: "d", value: state?.volume ?? 1 },
+      Position: { signature: "x", value: toMicroseconds(getPosition()) },
+      MinimumRate: { signature: "d", value: options.minimumRate },
+      MaximumRate: { signature: "d", value: options.maximumRate },
+      // 没有当前歌曲时播放也可能从播放列表或待播队列开始，由播放器处理
+      CanGoNext: { signature: "b", value: true },
+      CanGoPrevious: { signature: "b", value: true },
+      CanPlay: { signature: "b", value: true },
+      CanPause: { signature: "b", value: hasSong },
+      CanSeek: { signature: "b", value: hasSong && (state?.song?.duration ?? 0) > 0 },
+      CanControl: { signature: "b", value: true },
+    };
+  };
+
+  const getProperties = (iface: string) => {
+    if (iface === ROOT_INTERFACE) return getRootProperties();
+    if (iface === PLAYER_INTERFACE) return getPlayerProperties();
+    throw new DBusError("org.freedesktop.DBus.Error.UnknownInterface", `没有接口 ${iface}`);
+  };
+
+  // 跳转到指定位置（秒），超出范围时按规范忽略或切到下一首
+  const seekTo = (position: number) => {
+    if (!state?.song) return;
+    const duration = state.song.duration;
+    if (duration > 0 && position >= duration) {
+      options.onCommand({ type: "next" });
+      return;
+    }
+    options.onCommand({ type: "seek", position: Math.max(0, position) });
+  };
+
+  const setProperty = (iface: string, name: string, variant: Variant) => {
+    const value = variant.value;
+    if (iface === PLAYER_INTERFACE) {
+      switch (name) {
+        case "LoopStatus":
+          if (!LOOP_STATUSES.includes(value as MprisLoopStatus)) {
+            throw new DBusError("org.freedesktop.DBus.Error.InvalidArgs", `无效的 LoopStatus: ${value}`);
+          }
+          options.onCommand({ type: "loopStatus", value: value as MprisLoopStatus });
+          return;
+        case "Shuffle":
+          options.onCommand({ type: "shuffle", value: !!value });
+          return;
+        case "Volume":
+          options.onCommand({ type: "volume", value: Math.min(1, Math.max(0, Number(value))) });
+          return;
+        case "Rate": {
+          // 规范：速度设为 0 相当于暂停
+          const rate = Number(value);
+          if (rate === 0) {
+            options.onCommand({ type: "pause" });
+            return;
+          }
+          options.onCommand({
+            type: "rate",
+            value: Math.min(options.maximumRate, Math.max(options.minimumRate, rate)),
+          });
+          return;
+        }
+      }
+    }
+    getProperties(iface);
+    throw new DBusError("org.freedesktop.DBus.Error.PropertyReadOnly", `属性 ${name} 只读`);
+  };
+
+  const handleMethodCall = (message: DBusMessage): DBusReply | null => {
+    if (message.path !== OBJECT_PATH) {
+      throw new DBusError("org.freedesktop.DBus.Error.UnknownObject", `没有对象 ${message.path}`);
+    }
+
+    const body = message.body as any[];
+    switch (`${message.interface}.${message.member}`) {
+      case "org.freedesktop.DBus.Introspectable.Introspect":
+        return { signature: "s", body: [INTROSPECTION_XML] };
+      case "org.freedesktop.DBus.Peer.Ping":
+        return null;
+      case `${PROPERTIES_INTERFACE}.Get`: {
+        const properties = getProperties(body[0]);
+        if (!(body[1] in properties)) {
+          throw new DBusError("org.freedesktop.DBus.Error.InvalidArgs", `没有属性 ${body[1]}`);
+        }
+        return { signature: "v", body: [properties[body[1]]] };
+      }
+      case `${PROPERTIES_INTERFACE}.GetAll`:
+        return { signature: "a{sv}", body: [getProperties(body[0])] };
+      case `${PROPERTIES_INTERFACE}.Set`:
+        setProperty(body[0], body[1], body[2]);
+        return null;
+      case `${ROOT_INTERFACE}.Raise`:
+        options.onRaise();
+        return null;
+      case `${ROOT_INTERFACE}.Quit`:
+        options.onQuit();
+        return null;
+      case `${PLAYER_INTERFACE}.Next`:
+        options.onCommand({ type: "next" });
+        return null;
+      case `${PLAYER_INTERFACE}.Previous`:
+        options.onCommand({ type: "prev" });
+        return null;
+      case `${PLAYER_INTERFACE}.Pause`:
+        options.onCommand({ type: "pause" });
+        return null;
+      case `${PLAYER_INTERFACE}.PlayPause`:
+        options.onCommand({ type: "playPause" });
+        return null;
+      case `${PLAYER_INTERFACE}.Stop`:
+        options.onCommand({ type: "stop" });
+        return null;
+      case `${PLAYER_INTERFACE}.Play`:
+        options.onCommand({ type: "play" });
+        return null;
+      case `${PLAYER_INTERFACE}.Seek`:
+        // 偏移量单位为微秒
+        seekTo(getPosition() + Number(body[0]) / 1_000_000);
+        return null;
+      case `${PLAYER_INTERFACE}.SetPosition`: {
+        // 不是当前歌曲或超出范围时按规范忽略
+        const position = Number(body[1]) / 1_000_000;
+        const duration = state?.song?.duration ?? 0;
+        if (body[0] !== getTrackId(state) || position < 0 || (duration > 0 && position > duration)) {
+          return null;
+        }
+        seekTo(position);
+        return null;
+      }
+      case `${PLAYER_INTERFACE}.OpenUri`:
+        options.onOpenUri(String(body[0]));
+        return null;
+    }
+    throw new DBusError(
+      "org.freedesktop.DBus.Error.UnknownMethod",
+      `没有方法 ${message.interface}.${message.member}`
+    );
+  };
+
+  bus.onMethodCall(handleMethodCall);
+
+  // 申请服务名称，已被占用时（如开发和正式版本同时运行）按规范加上实例后缀
+  const [result] = await bus.call({
+    destination: "org.freedesktop.DBus",
+    path: "/org/freedesktop/DBus",
+    interface: "org.freedesktop.DBus",
+    member: "RequestName",
+    signature: "su",
+    body: [BUS_NAME, 4], // DBUS_NAME_FLAG_DO_NOT_QUEUE
+  });
+  if (result !== 1 && result !== 4) {
+    await bus.call({
+      destination: "org.freedesktop.DBus",
+      path: "/org/freedesktop/DBus",
+      interface: "org.freedesktop.DBus",
+      member: "RequestName",
+      signature: "su",
+      body: [`${BUS_NAME}.instance${process.pid}`, 4],
+    });
+  }
+
+  return {
+    update: (next) => {
+      const previousProperties = getPlayerProperties();
+      const expectedPosition = getPosition();
+      const sameTrack = !!state?.song && getTrackId(state) === getTrackId(next);
+      state = next;
+
+      // 位置变化不发送 PropertiesChanged（规范要求客户端自行推算）
+      const properties = getPlayerProperties();
+      const changed: Record<string, Variant> = {};
+      for (const [name, variant] of Object.entries(properties)) {
+        if (name === "Position") continue;
+        if (serialize(variant) !== serialize(previousProperties[name])) {
+          changed[name] = variant;
+        }
+      }
+      if (Object.keys(changed).length > 0) {
+        bus.emitSignal({
+          path: OBJECT_PATH,
+          interface: PROPERTIES_INTERFACE,
+          member: "PropertiesChanged",
+          signature: "sa{sv}as",
+          body: [PLAYER_INTERFACE, changed, []],
+        });
+      }
+
+      if (sameTrack && Math.abs(next.position - expectedPosition) > SEEK_DETECT_THRESHOLD) {
+        bus.emitSignal({
+          path: OBJECT_PATH,
+          interface: PLAYER_INTERFACE,
+          member: "Seeked",
+          signature: "x",
+          body: [toMicroseconds(next.position)],
+        });
+      }
+    },
+    close: () => bus.close(),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * 正在播放分享
+ * 把主窗口推送的播放信息发布到各个目标（Discord 状态、文本文件、Webhook），
+ * 每个目标单独节流，拖动进度等频繁变化时合并为一次发布
+ */
+
+import fs from "fs/promises";
+import { writeFileSync } from "fs";
+import { connectDiscordRpc } from "./discordRpc";
+import type { DiscordRpcClient } from "./discordRpc";
+import { reconfigureServices } from "./configuredServices";
+import type { ServiceDefinition } from "./configuredServices";
+import type {
+  NowPlayingConfig,
+  NowPlayingInfo,
+  NowPlayingSinkId,
+  NowPlayingStatus,
+} from "../src/config/nowPlaying";
+
+// 发布目标
+export interface NowPlayingSink {
+  // 两次发布之间的最小间隔（毫秒）
+  minInterval: number;
+  // 发布失败时抛出异常，错误信息显示在设置页面
+  publish: (info: NowPlayingInfo) => Promise<void>;
+  close: () => void;
+}
+
+export interface NowPlayingPublisher {
+  // 应用配置，返回各目标的状态
+  configure: (config: NowPlayingConfig) => NowPlayingStatus;
+  update: (info: NowPlayingInfo) => void;
+  close: () => void;
+}
+
+// Discord 要求文字长度在 2 到 128 之间
+function fitDiscordText(text: string) {
+  const trimmed = text.trim().slice(0, 128);
+  return trimmed.length >= 2 ? trimmed : trimmed.padEnd(2, "\u200b");
+}
+
+function createDiscordSink(config: NowPlayingConfig): NowPlayingSink {
+  let client: DiscordRpcClient | null = null;
+  let closed = false;
+
+  // Discord 重启后需要重新连接
+  const getClient = async () => {
+    if (!client?.isConnected()) {
+      const newClient = await connectDiscordRpc(config.discord.clientId.trim());
+      // 连接过程中目标已关闭（如修改了应用 ID）
+      if (closed) {
+        newClient.close();
+        throw new Error("已关闭");
+      }
+      client = newClient;
+    }
+    return client;
+  };
+
+  return {
+    // Discord 限制每 20 秒最多更新 5 次
+    minInterval: 5000,
+    publish: async (info) => {
+      // 暂停或没有歌曲时清除状态（Discord 未运行时不必连接）
+      if (!info.song || !info.isPlaying) {
+        if (client?.isConnected()) {
+          await client.setActivity(null);
+        }
+        return;
+      }
+
+      const startTimestamp = Math.round(info.sentAt - info.position * 1000);
+      const rpc = await getClient();
+      await rpc.setActivity({
+        details: fitDiscordText(info.song.title),
+        state: fitDiscordText(info.song.artist || "未知歌手"),
+        startTimestamp,
+        endTimestamp:
+          info.song.duration > 0
+            ? startTimestamp + Math.round(info.song.duration * 1000)
+            : undefined,
+        // 只能使用 https 图片地址
+        largeImage: info.song.coverUrl.startsWith("https://") ? info.song.coverUrl : undefined,
+        largeText: info.song.album ? fitDiscordText(info.song.album) : undefined,
+      });
+    },
+    // 断开连接后 Discord 会自动清除状态
+    close: () => {
+      closed = true;
+      client?.close();
+      client = null;
+    },
+  };
+}
+
+// 按模板生成文本，如 "{artist} - {title}"
+function renderTemplate(template: string, info: NowPlayingInfo) {
+  if (!info.song) return "";
+  const values: Record<string, string> = {
+    title: info.song.title,
+    artist: info.song.artist,
+    album: info.song.album,
+    status: info.isPlaying ? "播放中" : "已暂停",
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function createFileSink(config: NowPlayingConfig): NowPlayingSink {
+  const { path: filePath, template } = config.file;
+
+  return {
+    minInterval: 1000,
+    publish: async (info) => {
+      // 先写入临时文件再替换，避免 OBS 等程序读到写了一半的内容
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, renderTemplate(template, info), "utf-8");
+      await fs.rename(tempPath, filePath);
+    },
+    // 关闭时清空文件，避免直播画面显示过期的歌曲
+    close: () => {
+      try {
+        writeFileSync(filePath, "", "utf-8");
+      } catch (error) {
+        console.warn("清空正在播放文件失败:", error);
+      }
+    },
+  };
+}
+
+function createWebhookSink(config: NowPlayingConfig): NowPlayingSink {
+  const url = config.webhook.url.trim();
+
+  return {
+    minInterval: 3000,
+    publish: async (info) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event: "now-playing",
+          song: info.song,
+          isPlaying: info.isPlaying,
+          position: info.position,
+          timestamp: info.sentAt,
+        }),
+        signal: AbortSignal.timeout(10000),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook 返回 HTTP ${response.status}`);
+      }
+    },
+    close: () => {},
+  };
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const { protocol } = new URL(value.trim());
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// 内置的发布目标，新增目标时在这里注册
+const SINK_DEFINITIONS: Record<
+  NowPlayingSinkId,
+  ServiceDefinition<NowPlayingConfig, NowPlayingSink>
+> = {
+  discord: {
+    validate: (config) => (config.discord.clientId.trim() ? null : "未填写应用 ID"),
+    isEnabled: (config) => config.discord.enabled,
+    create: createDiscordSink,
+  },
+  file: {
+    validate: (config) => (config.file.path ? null : "未选择文件"),
+    isEnabled: (config) => config.file.enabled,
+    create: createFileSink,
+  },
+  webhook: {
+    validate: (config) => (isHttpUrl(config.webhook.url) ? null : "Webhook 地址无效"),
+    isEnabled: (config) => config.webhook.enabled,
+    create: createWebhookSink,
+  },
+};
+
+const SINK_IDS = Object.keys(SINK_DEFINITIONS) as NowPlayingSinkId[];
+
+interface SinkRunner {
+  sink: NowPlayingSink;
+  // 对应的配置，变化后重新创建
+  configKey: string;
+  lastPublishedAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  publishing: boolean;
+  // 发布过程中又有新的播放信息
+  pending: boolean;
+}
+
+/**
+ * 创建正在播放发布器，状态变化（如发布失败）时调用 onStatusChange
+ */
+export function createNowPlayingPublisher(
+  onStatusChange: (status: NowPlayingStatus) => void
+): NowPlayingPublisher {
+  const runners = new Map<NowPlayingSinkId, SinkRunner>();
+  let latestInfo: NowPlayingInfo | null = null;
+  const status = Object.fromEntries(
+    SINK_IDS.map((id) => [id, { enabled: false }])
+  ) as NowPlayingStatus;
+
+  const setError = (id: NowPlayingSinkId, error?: string) => {
+    if (status[id].error === error) return;
+    status[id] = { ...status[id], error };
+    onStatusChange({ ...status });
+  };
+
+  const run = async (id: NowPlayingSinkId, runner: SinkRunner) => {
+    runner.timer = null;
+    if (!latestInfo) return;
+
+    runner.publishing = true;
+    try {
+      await runner.sink.publish(latestInfo);
+      if (runners.get(id) === runner) setError(id, undefined);
+    } catch (error: any) {
+      console.warn(`发布正在播放失败 (${id}):`, error?.message || error);
+      if (runners.get(id) === runner) setError(id, error?.message || "发布失败");
+    } finally {
+      runner.publishing = false;
+      runner.lastPublishedAt = Date.now();
+    }
+
+    if (runner.pending && runners.get(id) === runner) {
+      runner.pending = false;
+      schedule(id, runner);
+    }
+  };
+
+  // 距离上次发布不足最小间隔时延后发布，期间的变化只发布最新一次
+  const schedule = (id: NowPlayingSinkId, runner: SinkRunner) => {
+    if (runner.publishing) {
+      runner.pending = true;
+      return;
+    }
+    if (runner.timer) return;
+    const delay = Math.max(0, runner.lastPublishedAt + runner.sink.minInterval - Date.now());
+    runner.timer = setTimeout(() => run(id, runner), delay);
+  };
+
+  const stopRunner = (id: NowPlayingSinkId) => {
+    const runner = runners.get(id);
+    if (!runner) return;
+    if (runner.timer) clearTimeout(runner.timer);
+    runner.sink.close();
+    runners.delete(id);
+  };
+
+  return {
+    configure: (config) => {
+      const results = reconfigureServices(config, SINK_DEFINITIONS, runners, {
+        start: (id, sink, configKey) => {
+          const runner: SinkRunner = {
+            sink,
+            configKey,
+            lastPublishedAt: 0,
+            timer: null,
+            publishing: false,
+            pending: false,
+          };
+          runners.set(id, runner);
+          schedule(id, runner);
+        },
+        stop: stopRunner,
+      });
+      for (const id of SINK_IDS) {
+        const { enabled, invalidReason, unchanged } = results[id];
+        status[id] = {
+          enabled,
+          error: invalidReason ?? (unchanged ? status[id].error : undefined),
+        };
+      }
+      return { ...status };
+    },
+    update: (info) => {
+      latestInfo = info;
+      runners.forEach((runner, id) => schedule(id, runner));
+    },
+    close: () => {
+      SINK_IDS.forEach(stopRunner);
+    },
+  };
+}
@@ -1,4 +1,31 @@
 import { ipcRenderer, contextBridge } from "electron";
+import type {
+  DesktopLyricCommand,
+  DesktopLyricMessage,
+} from "../src/config/desktopLyric";
+import type {
+  MiniPlayerCommand,
+  MiniPlayerState,
+} from "../src/config/miniPlayer";
+import type { ExternalOpenRequest } from "../src/config/externalOpen";
+import type {
+  RemoteCommand,
+  RemoteControlConfig,
+  RemotePlayerStatus,
+  RemoteQuery,
+  RemoteQueryResult,
+} from "../src/config/remoteControl";
+import type {
+  NowPlayingConfig,
+  NowPlayingInfo,
+  NowPlayingStatus,
+} from "../src/config/nowPlaying";
+import type {
+  ScrobbleConfig,
+  ScrobbleStatus,
+  ScrobbleTrack,
+} from "../src/config/scrobble";
+import type { MprisCommand, MprisState } from "../src/config/mpris";
 
 // --------- Expose some API to the Renderer process ---------
 contextBridge.exposeInMainWorld("ipcRenderer", {
@@ -50,6 +77,232 @@ contextBridge.exposeInMainWorld("electronAPI", {
   showOpenDialog() {
     return ipcRenderer.invoke("show-open-dialog");
   },
+  // 全局快捷键：注册快捷键，返回注册失败的 action 列表
+  registerGlobalShortcuts(bindings: Record<string, string>) {
+    return ipcRenderer.invoke("register-global-shortcuts", bindings);
+  },
+  // 全局快捷键：监听触发，返回取消监听的函数
+  onGlobalShortcut(callback: (action: string) => void) {
+    const listener = (_event: Electron.IpcRendererEvent, action: string) =>
+      callback(action);
+    ipcRenderer.on("global-shortcut", listener);
+    return () => {
+      ipcRenderer.off("global-shortcut", listener);
+    };
+  },
+  // 托盘：推送播放状态（托盘菜单和提示文字）
+  updateTrayState(state: {
+    hasSong: boolean;
+    title: string;
+    artist: string;
+    isPlaying: boolean;
+    playModeText: string;
+    isFavorite: boolean;
+  }) {
+    return ipcRenderer.invoke("update-tray-state", state);
+  },
+  // 托盘：监听托盘菜单中的播放操作，返回取消监听的函数
+  onTrayCommand(callback: (command: string) => void) {
+    const listener = (_event: Electron.IpcRendererEvent, command: string) =>
+      callback(command);
+    ipcRenderer.on("tray-command", listener);
+    return () => {
+      ipcRenderer.off("tray-command", listener);
+    };
+  },
+  // 桌面歌词：打开/关闭、锁定/解锁
+  setDesktopLyric(options: { enabled: boolean; locked: boolean }) {
+    return ipcRenderer.invoke("set-desktop-lyric", options);
+  },
+  // 桌面歌词：主窗口推送歌词和播放状态
+  sendDesktopLyricState(message: DesktopLyricMessage) {
+    ipcRenderer.send("desktop-lyric-state", message);
+  },
+  // 桌面歌词：桌面歌词窗口接收状态，返回取消监听的函数
+  onDesktopLyricState(callback: (message: DesktopLyricMessage) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      message: DesktopLyricMessage
+    ) => callback(message);
+    ipcRenderer.on("desktop-lyric-state", listener);
+    return () => {
+      ipcRenderer.off("desktop-lyric-state", listener);
+    };
+  },
+  // 桌面歌词：桌面歌词窗口发送操作（锁定、关闭、播放控制等）
+  sendDesktopLyricCommand(command: DesktopLyricCommand) {
+    ipcRenderer.send("desktop-lyric-command", command);
+  },
+  // 桌面歌词：主窗口接收操作，返回取消监听的函数
+  onDesktopLyricCommand(callback: (command: DesktopLyricCommand) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      command: DesktopLyricCommand
+    ) => callback(command);
+    ipcRenderer.on("desktop-lyric-command", listener);
+    return () => {
+      ipcRenderer.off("desktop-lyric-command", listener);
+    };
+  },
+  // 桌面歌词：锁定时暂时取消鼠标穿透（鼠标移到解锁按钮上）
+  setDesktopLyricIgnoreMouse(ignore: boolean) {
+    ipcRenderer.send("desktop-lyric-ignore-mouse", ignore);
+  },
+  // 迷你播放器：切换迷你模式
+  toggleMiniPlayer() {
+    return ipcRenderer.invoke("toggle-mini-player");
+  },
+  // 迷你播放器：主窗口推送播放状态
+  sendMiniPlayerState(state: MiniPlayerState) {
+    ipcRenderer.send("mini-player-state", state);
+  },
+  // 迷你播放器：迷你播放器窗口接收状态，返回取消监听的函数
+  onMiniPlayerState(callback: (state: MiniPlayerState) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      state: MiniPlayerState
+    ) => callback(state);
+    ipcRenderer.on("mini-player-state", listener);
+    return () => {
+      ipcRenderer.off("mini-player-state", listener);
+    };
+  },
+  // 迷你播放器：迷你播放器窗口发送操作
+  sendMiniPlayerCommand(command: MiniPlayerCommand) {
+    ipcRenderer.send("mini-player-command", command);
+  },
+  // 迷你播放器：主窗口接收操作，返回取消监听的函数
+  onMiniPlayerCommand(callback: (command: MiniPlayerCommand) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      command: MiniPlayerCommand
+    ) => callback(command);
+    ipcRenderer.on("mini-player-command", listener);
+    return () => {
+      ipcRenderer.off("mini-player-command", listener);
+    };
+  },
+  // 外部打开：取走窗口加载完成前收到的请求（打开的文件、qfmusic:// 链接）
+  takeExternalOpenRequests() {
+    return ipcRenderer.invoke("take-external-open-requests");
+  },
+  // 外部打开：接收之后的请求，返回取消监听的函数
+  onExternalOpen(callback: (request: ExternalOpenRequest) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      request: ExternalOpenRequest
+    ) => callback(request);
+    ipcRenderer.on("external-open", listener);
+    return () => {
+      ipcRenderer.off("external-open", listener);
+    };
+  },
+  // 远程控制：主窗口接收控制命令（命令行参数等），返回取消监听的函数
+  onRemoteCommand(callback: (command: RemoteCommand) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      command: RemoteCommand
+    ) => callback(command);
+    ipcRenderer.on("remote-command", listener);
+    return () => {
+      ipcRenderer.off("remote-command", listener);
+    };
+  },
+  // 远程控制：主窗口接收数据查询（播放状态、播放列表、搜索），返回取消监听的函数
+  onRemoteQuery(callback: (requestId: number, query: RemoteQuery) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      requestId: number,
+      query: RemoteQuery
+    ) => callback(requestId, query);
+    ipcRenderer.on("remote-query", listener);
+    return () => {
+      ipcRenderer.off("remote-query", listener);
+    };
+  },
+  // 远程控制：主窗口返回查询结果
+  sendRemoteQueryResult(requestId: number, result: RemoteQueryResult) {
+    ipcRenderer.send("remote-query-result", requestId, result);
+  },
+  // 远程控制：设置局域网远程控制服务，返回运行状态
+  setRemoteControl(config: RemoteControlConfig) {
+    return ipcRenderer.invoke("set-remote-control", config);
+  },
+  // 远程控制：主窗口推送播放状态（转发给 WebSocket 客户端）
+  sendRemotePlayerState(state: RemotePlayerStatus) {
+    ipcRenderer.send("remote-player-state", state);
+  },
+  // 正在播放分享：设置发布目标，返回各目标的状态
+  setNowPlayingConfig(config: NowPlayingConfig) {
+    return ipcRenderer.invoke("set-now-playing-config", config);
+  },
+  // 正在播放分享：主窗口推送播放信息
+  updateNowPlaying(info: NowPlayingInfo) {
+    ipcRenderer.send("update-now-playing", info);
+  },
+  // 正在播放分享：监听发布目标的状态变化（如发布失败），返回取消监听的函数
+  onNowPlayingStatus(callback: (status: NowPlayingStatus) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      status: NowPlayingStatus
+    ) => callback(status);
+    ipcRenderer.on("now-playing-status", listener);
+    return () => {
+      ipcRenderer.off("now-playing-status", listener);
+    };
+  },
+  // 正在播放分享：选择文本文件的保存位置，取消时返回空字符串
+  selectNowPlayingFile() {
+    return ipcRenderer.invoke("select-now-playing-file");
+  },
+  // 听歌记录同步：设置提交服务，返回各服务的状态
+  setScrobbleConfig(config: ScrobbleConfig) {
+    return ipcRenderer.invoke("set-scrobble-config", config);
+  },
+  // 听歌记录同步：登录 Last.fm
+  loginLastfm(options: {
+    baseUrl: string;
+    apiKey: string;
+    apiSecret: string;
+    username: string;
+    password: string;
+  }) {
+    return ipcRenderer.invoke("login-lastfm", options);
+  },
+  // 听歌记录同步：发送正在播放
+  scrobbleNowPlaying(track: ScrobbleTrack) {
+    ipcRenderer.send("scrobble-now-playing", track);
+  },
+  // 听歌记录同步：提交播放记录
+  scrobbleTrack(track: ScrobbleTrack) {
+    ipcRenderer.send("scrobble-track", track);
+  },
+  // 听歌记录同步：监听队列长度、提交失败等状态变化，返回取消监听的函数
+  onScrobbleStatus(callback: (status: ScrobbleStatus) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      status: ScrobbleStatus
+    ) => callback(status);
+    ipcRenderer.on("scrobble-status", listener);
+    return () => {
+      ipcRenderer.off("scrobble-status", listener);
+    };
+  },
+  // MPRIS（仅 Linux）：主窗口推送播放状态
+  updateMprisState(state: MprisState) {
+    ipcRenderer.send("update-mpris-state", state);
+  },
+  // MPRIS：主窗口接收媒体控件的操作，返回取消监听的函数
+  onMprisCommand(callback: (command: MprisCommand) => void) {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      command: MprisCommand
+    ) => callback(command);
+    ipcRenderer.on("mpris-command", listener);
+    return () => {
+      ipcRenderer.off("mpris-command", listener);
+    };
+  },
 });
 
 // 缓存管理 API
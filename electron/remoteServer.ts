@@ -0,0 +1,331 @@
+/**
+ * 局域网远程控制服务：HTTP 接口 + WebSocket 状态推送
+ * 只负责监听、鉴权、解析请求和 WebSocket 帧，具体接口由主进程传入的 handleApi 处理
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+import os from "node:os";
+import type { Duplex } from "node:stream";
+
+export interface RemoteServerOptions {
+  port: number;
+  token: string;
+  // 允许局域网访问（关闭时只监听本机）
+  allowLan: boolean;
+  // 处理接口请求，返回响应数据；抛出 RemoteApiError 时返回对应的状态码
+  handleApi: (request: RemoteApiRequest) => Promise<unknown>;
+  // WebSocket 连接建立后立即发送的消息（如当前播放状态）
+  getInitialMessage?: () => Promise<unknown> | unknown;
+}
+
+export interface RemoteApiRequest {
+  method: string;
+  // 去掉 /api 前缀后的路径，如 /status
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+export interface RemoteServer {
+  urls: string[];
+  // 向所有 WebSocket 客户端发送消息
+  broadcast: (message: unknown) => void;
+  close: () => Promise<void>;
+}
+
+export class RemoteApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "RemoteApiError";
+  }
+}
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// 请求体和 WebSocket 客户端消息的大小上限
+const MAX_BODY_SIZE = 16 * 1024;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// 比较令牌（先取哈希保证长度一致，避免按时间差猜测令牌）
+function isTokenValid(expected: string, actual: string | null) {
+  if (!expected || !actual) return false;
+  const hash = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(hash(expected), hash(actual));
+}
+
+// 令牌可以放在 Authorization: Bearer <token> 请求头或 ?token= 参数中（浏览器 WebSocket 不能设置请求头）
+function getRequestToken(request: http.IncomingMessage, url: URL) {
+  const header = request.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return url.searchParams.get("token");
+}
+
+function sendJson(response: http.ServerResponse, status: number, data: unknown) {
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json; charset=utf-8",
+  });
+  response.end(JSON.stringify(data));
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new RemoteApiError(413, "请求体过大"));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf-8").trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        const body = JSON.parse(text);
+        resolve(body && typeof body === "object" ? body : {});
+      } catch {
+        reject(new RemoteApiError(400, "请求体不是有效的 JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+// 编码服务端发出的 WebSocket 帧（服务端发出的帧不加掩码）
+function encodeFrame(opcode: number, payload: Buffer) {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+// WebSocket 连接：只处理关闭和 ping，客户端发来的文本消息忽略
+function acceptWebSocket(socket: Duplex, onClose: () => void) {
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+    socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // 客户端发来的帧必须加掩码
+      if (!masked || length > MAX_BODY_SIZE) {
+        close();
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        close();
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  });
+  socket.on("close", () => {
+    closed = true;
+    onClose();
+  });
+  socket.on("error", () => {
+    closed = true;
+    onClose();
+  });
+
+  return {
+    send: (text: string) => {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text, "utf-8")));
+    },
+    close,
+  };
+}
+
+// 可访问的地址（允许局域网访问时列出本机的局域网 IPv4 地址）
+function getServerUrls(port: number, allowLan: boolean) {
+  const urls = [`http://127.0.0.1:${port}`];
+  if (!allowLan) return urls;
+
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === "IPv4" && !address.internal) {
+        urls.push(`http://${address.address}:${port}`);
+      }
+    }
+  }
+  return urls;
+}
+
+/**
+ * 启动远程控制服务，端口被占用等错误时抛出异常
+ */
+export function startRemoteServer(options: RemoteServerOptions): Promise<RemoteServer> {
+  const clients = new Set<ReturnType<typeof acceptWebSocket>>();
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url || "/", "http://localhost");
+
+    // 浏览器跨域预检请求
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, CORS_HEADERS);
+      response.end();
+      return;
+    }
+
+    if (!url.pathname.startsWith("/api/")) {
+      sendJson(response, 404, { success: false, message: "接口不存在" });
+      return;
+    }
+    if (!isTokenValid(options.token, getRequestToken(request, url))) {
+      sendJson(response, 401, { success: false, message: "令牌无效" });
+      return;
+    }
+
+    try {
+      const body = request.method === "POST" ? await readJsonBody(request) : {};
+      const data = await options.handleApi({
+        method: request.method || "GET",
+        path: url.pathname.slice("/api".length),
+        query: url.searchParams,
+        body,
+      });
+      sendJson(response, 200, { success: true, data: data ?? null });
+    } catch (error: any) {
+      const status = error instanceof RemoteApiError ? error.status : 500;
+      if (status === 500) {
+        console.error("远程控制接口出错:", error);
+      }
+      sendJson(response, status, { success: false, message: error?.message || "服务器错误" });
+    }
+  });
+
+  // WebSocket：ws://host:port/ws?token=<token>
+  server.on("upgrade", async (request, socket) => {
+    // 握手前后客户端断开都会触发 error，没有监听时会导致主进程崩溃
+    socket.on("error", () => socket.destroy());
+    const url = new URL(request.url || "/", "http://localhost");
+    const key = request.headers["sec-websocket-key"];
+
+    if (
+      url.pathname !== "/ws" ||
+      request.headers.upgrade?.toLowerCase() !== "websocket" ||
+      typeof key !== "string"
+    ) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    if (!isTokenValid(options.token, getRequestToken(request, url))) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return;
+    }
+
+    const accept = crypto
+      .createHash("sha1")
+      .update(key + WEBSOCKET_GUID)
+      .digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const client = acceptWebSocket(socket, () => clients.delete(client));
+    clients.add(client);
+
+    try {
+      const message = await options.getInitialMessage?.();
+      if (message) {
+        client.send(JSON.stringify(message));
+      }
+    } catch (error) {
+      console.error("发送初始状态失败:", error);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        new Error(
+          error.code === "EADDRINUSE" ? `端口 ${options.port} 已被占用` : error.message
+        )
+      );
+    });
+
+    server.listen(options.port, options.allowLan ? "0.0.0.0" : "127.0.0.1", () => {
+      // 启动后的错误只记录，避免未处理的 error 事件导致主进程崩溃
+      server.on("error", (error) => console.error("远程控制服务出错:", error));
+      resolve({
+        urls: getServerUrls(options.port, options.allowLan),
+        broadcast: (message) => {
+          if (clients.size === 0) return;
+          const text = JSON.stringify(message);
+          clients.forEach((client) => client.send(text));
+        },
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            clients.forEach((client) => client.close());
+            clients.clear();
+            server.close(() => resolveClose());
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
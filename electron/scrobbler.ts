@@ -0,0 +1,406 @@
+/**
+ * 听歌记录同步（Scrobble）
+ * 把主窗口提交的播放记录发送到 Last.fm / ListenBrainz，并发送“正在播放”；
+ * 网络不可用时记录保存在磁盘队列中，恢复后按批次重新提交
+ */
+
+import crypto from "node:crypto";
+import fs from "fs/promises";
+import { readFileSync, writeFileSync } from "fs";
+import { reconfigureServices } from "./configuredServices";
+import type { ServiceDefinition } from "./configuredServices";
+import type {
+  LastfmSession,
+  ScrobbleConfig,
+  ScrobbleServiceId,
+  ScrobbleStatus,
+  ScrobbleTrack,
+} from "../src/config/scrobble";
+
+// 每次最多提交的记录数（Last.fm 上限为 50）
+const BATCH_SIZE = 50;
+// 网络不可用时的重试间隔（毫秒）
+const RETRY_INTERVAL = 5 * 60 * 1000;
+const REQUEST_TIMEOUT = 15000;
+// 队列上限，超出时丢弃最早的记录
+const MAX_QUEUE_SIZE = 10000;
+// Last.fm 不接受 14 天之前的记录（秒）
+const LASTFM_MAX_AGE = 14 * 24 * 60 * 60;
+const CLIENT_NAME = "清风音乐";
+
+// Last.fm 错误码：服务暂时不可用 / 请求过于频繁，稍后重试
+const LASTFM_RETRY_ERRORS = [11, 16, 29];
+// Last.fm 错误码：认证失败、会话失效、API Key 无效、签名无效、API Key 被停用
+const LASTFM_AUTH_ERRORS = [4, 9, 10, 13, 26];
+
+export class ScrobbleError extends Error {
+  // retry：网络不可用等临时错误，保留记录稍后重试
+  // auth：登录失效、密钥无效，保留记录等待修改配置
+  // rejected：服务拒绝了这批记录，丢弃
+  constructor(public kind: "retry" | "auth" | "rejected", message: string) {
+    super(message);
+    this.name = "ScrobbleError";
+  }
+}
+
+interface ScrobbleService {
+  updateNowPlaying: (track: ScrobbleTrack) => Promise<void>;
+  // 一次最多 BATCH_SIZE 条
+  scrobble: (tracks: ScrobbleTrack[]) => Promise<void>;
+}
+
+export interface Scrobbler {
+  // 应用配置，返回各服务的状态
+  configure: (config: ScrobbleConfig) => ScrobbleStatus;
+  updateNowPlaying: (track: ScrobbleTrack) => void;
+  scrobble: (track: ScrobbleTrack) => void;
+  close: () => void;
+}
+
+// 网络错误统一转为可重试的错误
+async function request(url: string, init: RequestInit) {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  } catch (error: any) {
+    throw new ScrobbleError("retry", `网络不可用：${error?.message || error}`);
+  }
+}
+
+// ========== Last.fm ==========
+
+// 签名：参数按名称排序后拼接名称和值，再加上 Secret 取 MD5
+function signLastfmParams(params: Record<string, string>, apiSecret: string) {
+  const text =
+    Object.keys(params)
+      .sort()
+      .map((key) => key + params[key])
+      .join("") + apiSecret;
+  return crypto.createHash("md5").update(text, "utf-8").digest("hex");
+}
+
+async function callLastfm(
+  baseUrl: string,
+  apiKey: string,
+  apiSecret: string,
+  params: Record<string, string>
+) {
+  const signedParams: Record<string, string> = { ...params, api_key: apiKey };
+  signedParams.api_sig = signLastfmParams(signedParams, apiSecret);
+
+  const response = await request(baseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ ...signedParams, format: "json" }).toString(),
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // 非 JSON 响应按状态码处理
+  }
+
+  if (data?.error) {
+    const code = Number(data.error);
+    const message = `Last.fm：${data.message || `错误 ${code}`}`;
+    if (LASTFM_RETRY_ERRORS.includes(code)) throw new ScrobbleError("retry", message);
+    if (LASTFM_AUTH_ERRORS.includes(code)) throw new ScrobbleError("auth", message);
+    throw new ScrobbleError("rejected", message);
+  }
+  if (!response.ok) {
+    throw new ScrobbleError(
+      response.status >= 500 ? "retry" : "rejected",
+      `Last.fm 返回 HTTP ${response.status}`
+    );
+  }
+  return data;
+}
+
+/**
+ * 用户名密码登录 Last.fm，返回会话密钥（不保存密码）
+ */
+export async function loginLastfm(options: {
+  baseUrl: string;
+  apiKey: string;
+  apiSecret: string;
+  username: string;
+  password: string;
+}): Promise<LastfmSession> {
+  const data = await callLastfm(options.baseUrl, options.apiKey, options.apiSecret, {
+    method: "auth.getMobileSession",
+    username: options.username,
+    password: options.password,
+  });
+  if (!data?.session?.key) {
+    throw new Error("Last.fm 未返回会话密钥");
+  }
+  return { username: data.session.name || options.username, sessionKey: data.session.key };
+}
+
+function createLastfmService(config: ScrobbleConfig): ScrobbleService {
+  const { baseUrl, apiKey, apiSecret, sessionKey } = config.lastfm;
+  const call = (params: Record<string, string>) =>
+    callLastfm(baseUrl, apiKey, apiSecret, { ...params, sk: sessionKey });
+
+  // 批量提交时参数名带下标，如 artist[0]
+  const getTrackParams = (track: ScrobbleTrack, suffix = "") => {
+    const params: Record<string, string> = {
+      [`artist${suffix}`]: track.artist,
+      [`track${suffix}`]: track.title,
+    };
+    if (track.album) params[`album${suffix}`] = track.album;
+    if (track.duration > 0) params[`duration${suffix}`] = String(Math.round(track.duration));
+    return params;
+  };
+
+  return {
+    updateNowPlaying: async (track) => {
+      await call({ method: "track.updateNowPlaying", ...getTrackParams(track) });
+    },
+    scrobble: async (tracks) => {
+      const params: Record<string, string> = { method: "track.scrobble" };
+      tracks.forEach((track, index) => {
+        Object.assign(params, getTrackParams(track, `[${index}]`), {
+          [`timestamp[${index}]`]: String(track.timestamp),
+        });
+      });
+      await call(params);
+    },
+  };
+}
+
+// ========== ListenBrainz ==========
+
+function createListenBrainzService(config: ScrobbleConfig): ScrobbleService {
+  const { baseUrl, token } = config.listenbrainz;
+  const url = `${baseUrl.replace(/\/+$/, "")}/1/submit-listens`;
+
+  const toListen = (track: ScrobbleTrack, withTimestamp: boolean) => ({
+    ...(withTimestamp ? { listened_at: track.timestamp } : {}),
+    track_metadata: {
+      artist_name: track.artist,
+      track_name: track.title,
+      ...(track.album ? { release_name: track.album } : {}),
+      additional_info: {
+        ...(track.duration > 0 ? { duration_ms: Math.round(track.duration * 1000) } : {}),
+        media_player: CLIENT_NAME,
+        submission_client: CLIENT_NAME,
+      },
+    },
+  });
+
+  const submit = async (listenType: "single" | "import" | "playing_now", payload: unknown[]) => {
+    const response = await request(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ listen_type: listenType, payload }),
+    });
+    if (response.ok) return;
+
+    let error = "";
+    try {
+      error = (await response.json())?.error || "";
+    } catch {
+      // 非 JSON 响应只显示状态码
+    }
+    const message = `ListenBrainz：${error || `HTTP ${response.status}`}`;
+    if (response.status === 401) throw new ScrobbleError("auth", message);
+    if (response.status === 429 || response.status >= 500) {
+      throw new ScrobbleError("retry", message);
+    }
+    throw new ScrobbleError("rejected", message);
+  };
+
+  return {
+    updateNowPlaying: (track) => submit("playing_now", [toListen(track, false)]),
+    scrobble: (tracks) =>
+      submit(
+        tracks.length === 1 ? "single" : "import",
+        tracks.map((track) => toListen(track, true))
+      ),
+  };
+}
+
+const SERVICE_DEFINITIONS: Record<
+  ScrobbleServiceId,
+  ServiceDefinition<ScrobbleConfig, ScrobbleService>
+> = {
+  lastfm: {
+    validate: (config) => {
+      if (!config.lastfm.apiKey || !config.lastfm.apiSecret) return "未填写 API Key 和 Secret";
+      if (!config.lastfm.sessionKey) return "未登录";
+      return null;
+    },
+    isEnabled: (config) => config.lastfm.enabled,
+    create: createLastfmService,
+  },
+  listenbrainz: {
+    validate: (config) => (config.listenbrainz.token ? null : "未填写用户令牌"),
+    isEnabled: (config) => config.listenbrainz.enabled,
+    create: createListenBrainzService,
+  },
+};
+
+const SERVICE_IDS = Object.keys(SERVICE_DEFINITIONS) as ScrobbleServiceId[];
+
+// ========== 离线队列 ==========
+
+interface QueuedScrobble {
+  service: ScrobbleServiceId;
+  track: ScrobbleTrack;
+}
+
+function loadQueue(queuePath: string): QueuedScrobble[] {
+  try {
+    const data = JSON.parse(readFileSync(queuePath, "utf-8"));
+    return Array.isArray(data)
+      ? data.filter((item) => SERVICE_IDS.includes(item?.service) && item.track?.artist)
+      : [];
+  } catch {
+    // 文件不存在或已损坏
+    return [];
+  }
+}
+
+/**
+ * 创建 Scrobbler，队列保存在 queuePath；状态变化（队列长度、提交失败）时调用 onStatusChange
+ */
+export function createScrobbler(
+  queuePath: string,
+  onStatusChange: (status: ScrobbleStatus) => void
+): Scrobbler {
+  const services = new Map<ScrobbleServiceId, { service: ScrobbleService; configKey: string }>();
+  const enabled: Record<ScrobbleServiceId, boolean> = { lastfm: false, listenbrainz: false };
+  const errors: Partial<Record<ScrobbleServiceId, string>> = {};
+  const flushing = new Set<ScrobbleServiceId>();
+  let queue = loadQueue(queuePath);
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let saveTask: Promise<void> = Promise.resolve();
+  // 关闭后不再异步写入，避免较早的写入在退出时的同步保存之后才完成
+  let closed = false;
+
+  const getStatus = () =>
+    Object.fromEntries(
+      SERVICE_IDS.map((id) => [
+        id,
+        {
+          enabled: enabled[id],
+          queued: queue.filter((item) => item.service === id).length,
+          error: errors[id],
+        },
+      ])
+    ) as ScrobbleStatus;
+
+  // 依次写入（先写临时文件再替换）
+  const saveQueue = () => {
+    const text = JSON.stringify(queue);
+    saveTask = saveTask
+      .then(async () => {
+        if (closed) return;
+        await fs.writeFile(`${queuePath}.tmp`, text, "utf-8");
+        if (closed) return;
+        await fs.rename(`${queuePath}.tmp`, queuePath);
+      })
+      .catch((error) => console.error("保存 Scrobble 队列失败:", error));
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      services.forEach((_entry, id) => flush(id));
+    }, RETRY_INTERVAL);
+  };
+
+  // 按批次提交队列中该服务的记录，直到队列为空或遇到需要稍后重试的错误
+  const flush = async (id: ScrobbleServiceId) => {
+    const entry = services.get(id);
+    if (!entry || flushing.has(id)) return;
+    flushing.add(id);
+
+    try {
+      while (services.get(id) === entry) {
+        if (id === "lastfm") {
+          const minTimestamp = Math.floor(Date.now() / 1000) - LASTFM_MAX_AGE;
+          const length = queue.length;
+          queue = queue.filter(
+            (item) => item.service !== "lastfm" || item.track.timestamp >= minTimestamp
+          );
+          if (queue.length !== length) saveQueue();
+        }
+
+        const batch = queue.filter((item) => item.service === id).slice(0, BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        try {
+          await entry.service.scrobble(batch.map((item) => item.track));
+          errors[id] = undefined;
+        } catch (error: any) {
+          errors[id] = error?.message || "提交失败";
+          if (!(error instanceof ScrobbleError) || error.kind === "retry") {
+            scheduleRetry();
+            break;
+          }
+          if (error.kind === "auth") break;
+          console.warn(`${id} 拒绝了 ${batch.length} 条记录:`, error.message);
+        }
+
+        queue = queue.filter((item) => !batch.includes(item));
+        saveQueue();
+      }
+    } finally {
+      flushing.delete(id);
+      onStatusChange(getStatus());
+    }
+  };
+
+  return {
+    configure: (config) => {
+      const results = reconfigureServices(config, SERVICE_DEFINITIONS, services, {
+        start: (id, service, configKey) => services.set(id, { service, configKey }),
+        stop: (id) => services.delete(id),
+      });
+      for (const id of SERVICE_IDS) {
+        const { invalidReason, unchanged } = results[id];
+        enabled[id] = results[id].enabled;
+        if (!unchanged) {
+          errors[id] = invalidReason ?? undefined;
+          // 新创建的服务先提交队列中积压的记录
+          if (services.has(id)) flush(id);
+        }
+      }
+      return getStatus();
+    },
+    updateNowPlaying: (track) => {
+      services.forEach(({ service }, id) => {
+        service.updateNowPlaying(track).catch((error) => {
+          console.warn(`${id} 发送正在播放失败:`, error?.message || error);
+        });
+      });
+    },
+    scrobble: (track) => {
+      if (services.size === 0) return;
+      services.forEach((_entry, id) => queue.push({ service: id, track }));
+      if (queue.length > MAX_QUEUE_SIZE) {
+        queue = queue.slice(queue.length - MAX_QUEUE_SIZE);
+      }
+      saveQueue();
+      onStatusChange(getStatus());
+      services.forEach((_entry, id) => flush(id));
+    },
+    // 退出时同步保存队列
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      services.clear();
+      try {
+        writeFileSync(queuePath, JSON.stringify(queue), "utf-8");
+      } catch (error) {
+        console.error("保存 Scrobble 队列失败:", error);
+      }
+    },
+  };
+}
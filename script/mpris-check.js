@@ -0,0 +1,113 @@
+// MPRIS 服务检查（仅 Linux）：在 dbus-run-session 启动的独立会话总线上运行 electron/mpris.ts，
+// 用 dbus-send 调用 GetAll、PlayPause、Seek 并检查结果，不需要启动 Electron
+// 用法：npm run check:mpris
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+import { build } from 'vite';
+
+const BUS_NAME = 'org.mpris.MediaPlayer2.qfmusic';
+const OBJECT_PATH = '/org/mpris/MediaPlayer2';
+const PLAYER_INTERFACE = 'org.mpris.MediaPlayer2.Player';
+
+if (!process.env.DBUS_SESSION_BUS_ADDRESS) {
+    console.error('没有会话总线，请通过 dbus-run-session 运行：npm run check:mpris');
+    process.exit(1);
+}
+
+// 打包 electron/mpris.ts（及其依赖的 dbus.ts）为可以直接导入的 ES 模块
+const bundleMpris = async () => {
+    const outDir = fs.mkdtempSync(join(os.tmpdir(), 'qfmusic-mpris-'));
+    await build({
+        configFile: false,
+        logLevel: 'silent',
+        build: {
+            ssr: join(process.cwd(), 'electron/mpris.ts'),
+            outDir,
+            emptyOutDir: true,
+            rollupOptions: { output: { format: 'es', entryFileNames: 'mpris.mjs' } },
+        },
+    });
+    return outDir;
+};
+
+// 服务和 dbus-send 在同一个事件循环中应答，必须异步调用
+const dbusSend = async (method, ...args) => {
+    const { stdout } = await promisify(execFile)('dbus-send', [
+        '--session', '--print-reply', `--dest=${BUS_NAME}`, OBJECT_PATH, method, ...args,
+    ]);
+    return stdout;
+};
+
+// 方法调用是异步处理的，等待回调收到操作
+const waitFor = async (check, message) => {
+    for (let i = 0; i < 50; i++) {
+        if (check()) return;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error(message);
+};
+
+const assert = (condition, message) => {
+    if (!condition) throw new Error(message);
+};
+
+const main = async () => {
+    const outDir = await bundleMpris();
+    const commands = [];
+    let service = null;
+
+    try {
+        const { startMprisService } = await import(pathToFileURL(join(outDir, 'mpris.mjs')).href);
+        service = await startMprisService({
+            identity: '清风音乐',
+            supportedUriSchemes: ['file', 'qfmusic'],
+            supportedMimeTypes: ['audio/mpeg'],
+            minimumRate: 0.5,
+            maximumRate: 2,
+            onCommand: (command) => commands.push(command),
+            onRaise: () => {},
+            onQuit: () => {},
+            onOpenUri: () => {},
+        });
+        // 暂停状态下位置不随时间变化，Seek 的结果可以精确比较
+        service.update({
+            song: { id: '1', title: '测试歌曲', artist: '测试歌手', album: '测试专辑', artUrl: '', duration: 200 },
+            isPlaying: false,
+            position: 10,
+            sentAt: Date.now(),
+            rate: 1,
+            volume: 0.5,
+            loopStatus: 'Playlist',
+            shuffle: false,
+        });
+
+        const properties = await dbusSend('org.freedesktop.DBus.Properties.GetAll', `string:${PLAYER_INTERFACE}`);
+        assert(/"PlaybackStatus"\s+variant\s+string "Paused"/.test(properties), 'GetAll：PlaybackStatus 不是 Paused');
+        assert(properties.includes('string "测试歌曲"'), 'GetAll：Metadata 中没有歌曲名');
+        assert(/"Position"\s+variant\s+int64 10000000/.test(properties), 'GetAll：Position 不是 10 秒');
+        assert(/"CanSeek"\s+variant\s+boolean true/.test(properties), 'GetAll：CanSeek 不是 true');
+        console.log('✓ GetAll');
+
+        await dbusSend(`${PLAYER_INTERFACE}.PlayPause`);
+        await waitFor(() => commands.some((command) => command.type === 'playPause'), 'PlayPause：没有收到 playPause 操作');
+        console.log('✓ PlayPause');
+
+        await dbusSend(`${PLAYER_INTERFACE}.Seek`, 'int64:5000000');
+        await waitFor(() => commands.some((command) => command.type === 'seek'), 'Seek：没有收到 seek 操作');
+        const seek = commands.find((command) => command.type === 'seek');
+        assert(Math.abs(seek.position - 15) < 0.001, `Seek：跳转位置应为 15 秒，实际为 ${seek.position}`);
+        console.log('✓ Seek');
+    } finally {
+        service?.close();
+        fs.rmSync(outDir, { recursive: true, force: true });
+    }
+};
+
+main().catch((error) => {
+    console.error('✗', error.message);
+    process.exit(1);
+});
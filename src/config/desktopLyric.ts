@@ -0,0 +1,59 @@
+/**
+ * 桌面歌词配置文件
+ * 主窗口解析歌词并通过 IPC 推送给桌面歌词窗口，窗口本身不读取播放器状态
+ */
+
+import type { LyricLine } from "@/utils/lyricParser";
+
+// 字号范围（像素）
+export const DESKTOP_LYRIC_FONT_SIZE_MIN = 16;
+export const DESKTOP_LYRIC_FONT_SIZE_MAX = 72;
+
+export const DEFAULT_DESKTOP_LYRIC_FONT_SIZE = 36;
+export const DEFAULT_DESKTOP_LYRIC_TEXT_COLOR = "#ffffff";
+export const DEFAULT_DESKTOP_LYRIC_HIGHLIGHT_COLOR = "#ec4141";
+
+// 桌面歌词样式
+export interface DesktopLyricStyle {
+  fontSize: number;
+  fontFamily: string;
+  // 未唱到的文字颜色
+  textColor: string;
+  // 当前行 / 已唱到的文字颜色
+  highlightColor: string;
+  karaokeMode: "off" | "style1" | "style2";
+  locked: boolean;
+}
+
+// 主窗口推送给桌面歌词窗口的消息
+export type DesktopLyricMessage =
+  | {
+      type: "lyrics";
+      songId: string | null;
+      title: string;
+      artist: string;
+      lyrics: LyricLine[];
+    }
+  | {
+      type: "playback";
+      // 已加上歌词偏移量的时间（秒）
+      time: number;
+      isPlaying: boolean;
+      playbackRate: number;
+      // 发送时刻（毫秒时间戳），桌面歌词窗口据此推算当前时间
+      sentAt: number;
+    }
+  | {
+      type: "style";
+      style: DesktopLyricStyle;
+    };
+
+// 桌面歌词窗口发给主窗口的操作
+export type DesktopLyricCommand =
+  | "ready"
+  | "lock"
+  | "unlock"
+  | "close"
+  | "playPause"
+  | "prev"
+  | "next";
@@ -0,0 +1,64 @@
+/**
+ * 均衡器配置文件
+ * 10 段均衡器的频点和内置预设
+ */
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  // 前级增益（dB）
+  preamp: number;
+  // 10 个频段的增益（dB），顺序与 EQ_FREQUENCIES 一致
+  bands: number[];
+}
+
+// 10 个频段的中心频率（Hz）
+export const EQ_FREQUENCIES = [
+  31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000,
+];
+
+// 单个频段 / 前级的增益范围（dB）
+export const EQ_GAIN_MIN = -12;
+export const EQ_GAIN_MAX = 12;
+
+// 平直（不做处理）
+export const FLAT_EQ_BANDS = EQ_FREQUENCIES.map(() => 0);
+
+// 内置预设
+export const builtinEqPresets: EqPreset[] = [
+  {
+    id: "flat",
+    name: "平直",
+    preamp: 0,
+    bands: FLAT_EQ_BANDS,
+  },
+  {
+    id: "pop",
+    name: "流行",
+    preamp: -2,
+    bands: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2],
+  },
+  {
+    id: "rock",
+    name: "摇滚",
+    preamp: -3,
+    bands: [5, 4, 2, 0, -1, -1, 1, 3, 4, 5],
+  },
+  {
+    id: "classical",
+    name: "古典",
+    preamp: -1,
+    bands: [3, 2, 1, 0, 0, 0, -1, -1, 1, 3],
+  },
+  {
+    id: "vocal",
+    name: "人声",
+    preamp: -2,
+    bands: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1],
+  },
+];
+
+// 根据 ID 查找内置预设
+export function findBuiltinEqPreset(id: string): EqPreset | undefined {
+  return builtinEqPresets.find((preset) => preset.id === id);
+}
@@ -0,0 +1,17 @@
+/**
+ * 外部打开配置文件
+ * 用“打开方式”打开音频文件、点击 qfmusic:// 链接时，由主进程解析后交给主窗口处理
+ */
+
+// 主进程读取的音频文件
+export interface ExternalOpenFile {
+  path: string;
+  name: string;
+  size: number;
+  buffer: ArrayBuffer;
+}
+
+// 主进程转交给主窗口的打开请求
+export type ExternalOpenRequest =
+  | { type: "files"; files: ExternalOpenFile[] }
+  | { type: "song"; id: string };
@@ -0,0 +1,119 @@
+/**
+ * 全局快捷键配置文件
+ * 快捷键使用 Electron Accelerator 格式，窗口隐藏到托盘时也能生效
+ */
+
+export type GlobalShortcutAction =
+  | "playPause"
+  | "next"
+  | "prev"
+  | "volumeUp"
+  | "volumeDown"
+  | "favorite"
+  | "toggleWindow";
+
+export type GlobalShortcutBindings = Record<GlobalShortcutAction, string>;
+
+// 快捷键列表（按设置页显示顺序）
+export const globalShortcutActions: Array<{
+  action: GlobalShortcutAction;
+  label: string;
+}> = [
+  { action: "playPause", label: "播放 / 暂停" },
+  { action: "next", label: "下一首" },
+  { action: "prev", label: "上一首" },
+  { action: "volumeUp", label: "增大音量" },
+  { action: "volumeDown", label: "减小音量" },
+  { action: "favorite", label: "收藏 / 取消收藏" },
+  { action: "toggleWindow", label: "显示 / 隐藏窗口" },
+];
+
+// 默认快捷键（空字符串表示未设置）
+export const DEFAULT_GLOBAL_SHORTCUTS: GlobalShortcutBindings = {
+  playPause: "CommandOrControl+Alt+P",
+  next: "CommandOrControl+Alt+Right",
+  prev: "CommandOrControl+Alt+Left",
+  volumeUp: "CommandOrControl+Alt+Up",
+  volumeDown: "CommandOrControl+Alt+Down",
+  favorite: "CommandOrControl+Alt+L",
+  toggleWindow: "CommandOrControl+Alt+M",
+};
+
+// 全局快捷键调节音量的步长
+export const GLOBAL_SHORTCUT_VOLUME_STEP = 0.1;
+
+const isMac = () =>
+  typeof navigator !== "undefined" && /Mac/i.test(navigator.platform);
+
+// 按键名称 → Accelerator 键名（字母、数字使用 code 判断，避免受 Shift / Alt 影响）
+const SPECIAL_KEYS: Record<string, string> = {
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  " ": "Space",
+  Enter: "Enter",
+  Tab: "Tab",
+  Home: "Home",
+  End: "End",
+  PageUp: "PageUp",
+  PageDown: "PageDown",
+  Insert: "Insert",
+  "+": "Plus",
+  MediaPlayPause: "MediaPlayPause",
+  MediaTrackNext: "MediaNextTrack",
+  MediaTrackPrevious: "MediaPreviousTrack",
+  MediaStop: "MediaStop",
+  AudioVolumeUp: "VolumeUp",
+  AudioVolumeDown: "VolumeDown",
+  AudioVolumeMute: "VolumeMute",
+};
+
+// 不需要修饰键也可以单独注册的按键
+const STANDALONE_KEY = /^(F\d{1,2}|Media\w+|Volume\w+)$/;
+
+/**
+ * 把键盘事件转换为 Accelerator 字符串
+ * 只按下修饰键或组合不完整时返回 null
+ */
+export const keyEventToAccelerator = (event: KeyboardEvent): string | null => {
+  let key: string | undefined;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit\d$/.test(event.code)) {
+    key = event.code.slice(5);
+  } else if (/^Numpad\d$/.test(event.code)) {
+    key = `num${event.code.slice(6)}`;
+  } else if (/^F\d{1,2}$/.test(event.key)) {
+    key = event.key;
+  } else {
+    key = SPECIAL_KEYS[event.key];
+  }
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey) modifiers.push(isMac() ? "Control" : "CommandOrControl");
+  if (event.metaKey) modifiers.push(isMac() ? "CommandOrControl" : "Super");
+  if (event.altKey) modifiers.push("Alt");
+  if (event.shiftKey) modifiers.push("Shift");
+
+  if (modifiers.length === 0 && !STANDALONE_KEY.test(key)) return null;
+  return [...modifiers, key].join("+");
+};
+
+/**
+ * 把 Accelerator 转换为便于阅读的文字
+ */
+export const formatAccelerator = (accelerator: string): string => {
+  if (!accelerator) return "";
+  return accelerator
+    .split("+")
+    .map((part) => {
+      if (part === "CommandOrControl") return isMac() ? "Cmd" : "Ctrl";
+      if (part === "Control") return "Ctrl";
+      if (part === "Super") return "Win";
+      if (part === "Alt" && isMac()) return "Option";
+      return part;
+    })
+    .join(" + ");
+};
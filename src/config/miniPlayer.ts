@@ -0,0 +1,27 @@
+/**
+ * 迷你播放器配置文件
+ * 播放仍由主窗口负责，迷你播放器窗口只显示主窗口推送的状态，并把操作发回主窗口
+ */
+
+// 主窗口推送给迷你播放器的状态
+export interface MiniPlayerState {
+  hasSong: boolean;
+  title: string;
+  artist: string;
+  cover: string;
+  isPlaying: boolean;
+  isFavorite: boolean;
+  // 当前时间和总时长（秒）
+  currentTime: number;
+  duration: number;
+}
+
+// 迷你播放器窗口发给主窗口的操作（closed 由主进程在窗口关闭时发送）
+export type MiniPlayerCommand =
+  | { type: "ready" }
+  | { type: "closed" }
+  | { type: "playPause" }
+  | { type: "prev" }
+  | { type: "next" }
+  | { type: "favorite" }
+  | { type: "seek"; time: number };
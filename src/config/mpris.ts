@@ -0,0 +1,46 @@
+/**
+ * MPRIS 配置文件（仅 Linux）
+ * 主窗口把播放状态推送给主进程，主进程通过 D-Bus 提供 org.mpris.MediaPlayer2 服务，
+ * playerctl、GNOME / KDE 媒体控件的操作再转交回主窗口
+ */
+
+// MPRIS 循环状态：不循环 / 单曲循环 / 列表循环
+export type MprisLoopStatus = "None" | "Track" | "Playlist";
+
+// 主窗口推送给主进程的播放状态
+export interface MprisState {
+  song: {
+    id: string;
+    title: string;
+    artist: string;
+    album: string;
+    artUrl: string;
+    // 总时长（秒）
+    duration: number;
+  } | null;
+  isPlaying: boolean;
+  // 当前时间（秒）和推送时刻（毫秒时间戳），主进程据此推算查询时的位置
+  position: number;
+  sentAt: number;
+  rate: number;
+  // 音量（0-1）
+  volume: number;
+  loopStatus: MprisLoopStatus;
+  shuffle: boolean;
+}
+
+// 主进程转交给主窗口的操作
+export type MprisCommand =
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "playPause" }
+  | { type: "stop" }
+  | { type: "next" }
+  | { type: "prev" }
+  // 跳转到指定位置（秒）
+  | { type: "seek"; position: number }
+  // 音量（0-1）
+  | { type: "volume"; value: number }
+  | { type: "rate"; value: number }
+  | { type: "loopStatus"; value: MprisLoopStatus }
+  | { type: "shuffle"; value: boolean };
@@ -0,0 +1,57 @@
+/**
+ * 正在播放分享配置文件
+ * 主窗口把当前播放的歌曲推送给主进程，由主进程发布到各个目标（Discord 状态、文本文件、Webhook）
+ */
+
+// 发布目标
+export type NowPlayingSinkId = "discord" | "file" | "webhook";
+
+// 文本文件的默认内容模板
+export const DEFAULT_NOW_PLAYING_FILE_TEMPLATE = "{artist} - {title}";
+
+// 文本文件模板中可用的占位符
+export const NOW_PLAYING_TEMPLATE_FIELDS = ["title", "artist", "album", "status"] as const;
+
+// 各个发布目标的配置（主窗口推送给主进程）
+export interface NowPlayingConfig {
+  discord: {
+    enabled: boolean;
+    // Discord 开发者后台创建的应用 ID，状态中显示应用名称
+    clientId: string;
+  };
+  file: {
+    enabled: boolean;
+    path: string;
+    template: string;
+  };
+  webhook: {
+    enabled: boolean;
+    url: string;
+  };
+}
+
+// 主窗口推送给主进程的播放信息
+export interface NowPlayingInfo {
+  song: {
+    id: string;
+    title: string;
+    artist: string;
+    album: string;
+    coverUrl: string;
+    // 总时长（秒）
+    duration: number;
+  } | null;
+  isPlaying: boolean;
+  // 当前时间（秒）和推送时刻（毫秒时间戳）
+  position: number;
+  sentAt: number;
+}
+
+// 发布目标的运行状态（主进程返回）
+export interface NowPlayingSinkStatus {
+  enabled: boolean;
+  // 最近一次发布失败的原因，成功后清除
+  error?: string;
+}
+
+export type NowPlayingStatus = Record<NowPlayingSinkId, NowPlayingSinkStatus>;
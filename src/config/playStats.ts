@@ -0,0 +1,32 @@
+/**
+ * 听歌统计配置文件
+ * 每一次播放记录为一条播放事件（保存在 IndexedDB），统计页面按日期范围汇总
+ */
+
+// 一次播放
+export interface PlayEvent {
+  // 自增主键（写入后生成）
+  id?: number;
+  songId: string;
+  // 歌曲信息快照（歌曲可能已不在任何列表中）
+  title: string;
+  artist: string;
+  album: string;
+  // 开始播放的时间（毫秒时间戳）
+  startedAt: number;
+  // 实际收听时长（秒，拖动进度跳过的部分不计入）
+  listenedSeconds: number;
+  // 歌曲总时长（秒）
+  duration: number;
+  // 没有播放到结尾就切到了其他歌曲
+  skipped: boolean;
+}
+
+// 切歌时距离结尾超过这个值（秒）视为跳过
+export const SKIP_REMAINING_SECONDS = 10;
+
+// 收听不足这个值（秒）的播放不记录（如快速切歌时经过的歌曲）
+export const MIN_RECORDED_SECONDS = 1;
+
+// 统计页面的时间粒度
+export type StatsGranularity = "day" | "week";
@@ -0,0 +1,78 @@
+/**
+ * 远程控制配置文件
+ * 命令行、局域网 HTTP / WebSocket 接口等外部控制由主进程接收，转交给主窗口的播放器执行
+ */
+
+import type { Song } from "@/api/music";
+
+// 局域网远程控制接口的默认端口
+export const DEFAULT_REMOTE_CONTROL_PORT = 18520;
+export const REMOTE_CONTROL_PORT_MIN = 1024;
+export const REMOTE_CONTROL_PORT_MAX = 65535;
+
+// 远程控制服务配置（主窗口推送给主进程）
+export interface RemoteControlConfig {
+  enabled: boolean;
+  port: number;
+  token: string;
+  // 允许局域网访问（关闭时只监听本机）
+  allowLan: boolean;
+}
+
+// 远程控制服务运行状态（主进程返回）
+export interface RemoteControlStatus {
+  running: boolean;
+  // 可访问的地址
+  urls: string[];
+  error?: string;
+}
+
+// 主进程转交给主窗口的控制命令
+export type RemoteCommand =
+  | { type: "playPause" }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "next" }
+  | { type: "prev" }
+  // 跳转到指定位置（秒）
+  | { type: "seek"; position: number }
+  // 音量（0-100）
+  | { type: "volume"; value: number };
+
+// 主进程向主窗口查询的数据
+export type RemoteQuery =
+  | { type: "status" }
+  | { type: "queue" }
+  | { type: "search"; keyword: string; limit: number };
+
+// 主窗口返回的查询结果
+export type RemoteQueryResult =
+  | { success: true; data: unknown }
+  | { success: false; message: string };
+
+// 主窗口返回的播放状态
+export interface RemotePlayerStatus {
+  song: {
+    id: string;
+    title: string;
+    artist: string;
+    album: string;
+  } | null;
+  isPlaying: boolean;
+  // 当前时间和总时长（秒）
+  position: number;
+  duration: number;
+  playMode: string;
+  playModeText: string;
+  // 音量（0-100）
+  volume: number;
+}
+
+// 播放列表和待播队列
+export interface RemoteQueue {
+  // 当前歌曲在播放列表中的位置
+  currentIndex: number;
+  playlist: Song[];
+  // 待播队列（优先于播放列表播放）
+  upNext: Song[];
+}
@@ -0,0 +1,61 @@
+/**
+ * 听歌记录同步（Scrobble）配置文件
+ * 主窗口按播放进度判断何时提交，主进程负责提交到 Last.fm / ListenBrainz，网络不可用时保存到磁盘稍后重试
+ */
+
+// 接口地址（可修改为本地模拟服务用于测试）
+export const DEFAULT_LASTFM_BASE_URL = "https://ws.audioscrobbler.com/2.0/";
+export const DEFAULT_LISTENBRAINZ_BASE_URL = "https://api.listenbrainz.org";
+
+// 短于 30 秒的歌曲不提交
+export const SCROBBLE_MIN_DURATION = 30;
+// 播放一半或 4 分钟（以先到者为准）后提交
+export const SCROBBLE_MAX_PLAYED_TIME = 240;
+
+export type ScrobbleServiceId = "lastfm" | "listenbrainz";
+
+// 提交的歌曲信息
+export interface ScrobbleTrack {
+  artist: string;
+  title: string;
+  album: string;
+  // 时长（秒）
+  duration: number;
+  // 开始播放的时间（Unix 时间戳，秒）
+  timestamp: number;
+}
+
+// 提交配置（主窗口推送给主进程）
+export interface ScrobbleConfig {
+  lastfm: {
+    enabled: boolean;
+    baseUrl: string;
+    // Last.fm API 账号的 API Key 和 Secret
+    apiKey: string;
+    apiSecret: string;
+    // 登录后获得的会话密钥
+    sessionKey: string;
+  };
+  listenbrainz: {
+    enabled: boolean;
+    baseUrl: string;
+    // ListenBrainz 个人设置页面中的用户令牌
+    token: string;
+  };
+}
+
+// Last.fm 登录结果
+export interface LastfmSession {
+  username: string;
+  sessionKey: string;
+}
+
+export interface ScrobbleServiceStatus {
+  enabled: boolean;
+  // 等待提交的记录数
+  queued: number;
+  // 最近一次提交失败的原因，成功后清除
+  error?: string;
+}
+
+export type ScrobbleStatus = Record<ScrobbleServiceId, ScrobbleServiceStatus>;
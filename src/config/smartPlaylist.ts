@@ -0,0 +1,100 @@
+/**
+ * 智能歌单配置文件
+ * 智能歌单只保存规则，歌曲由规则从收藏、试听列表、本地音乐和自定义歌单中筛选，
+ * 这些列表或播放记录变化时自动重新计算
+ */
+
+// 规则字段
+export type SmartRuleField =
+  | "favorite" // 在我喜欢中
+  | "history" // 在试听列表中
+  | "local" // 在本地音乐中
+  | "playlist" // 在指定歌单中
+  | "title" // 歌曲名
+  | "artist" // 歌手
+  | "album" // 专辑
+  | "playCount" // 播放次数（来自听歌统计）
+  | "localAddedDays"; // 加入本地音乐的天数
+
+// 规则运算符
+export type SmartRuleOperator =
+  | "is"
+  | "isNot"
+  | "contains"
+  | "notContains"
+  | "equals"
+  | "greaterThan"
+  | "lessThan";
+
+export interface SmartRule {
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  // 文本规则为关键词，数值规则为数字，"在指定歌单中" 为歌单 ID，其余规则忽略
+  value: string | number;
+}
+
+// 规则组合方式：all 为同时满足（AND），any 为满足任一（OR）
+export type SmartRuleMatch = "all" | "any";
+
+export interface SmartPlaylist {
+  id: string;
+  name: string;
+  match: SmartRuleMatch;
+  rules: SmartRule[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 值的输入方式
+export type SmartRuleValueType = "none" | "text" | "number" | "playlist";
+
+export interface SmartRuleFieldOption {
+  label: string;
+  operators: SmartRuleOperator[];
+  valueType: SmartRuleValueType;
+  // 数值规则的单位
+  unit?: string;
+}
+
+// 各字段可用的运算符和值类型（编辑界面使用）
+export const SMART_RULE_FIELDS: Record<SmartRuleField, SmartRuleFieldOption> = {
+  favorite: { label: "我喜欢", operators: ["is", "isNot"], valueType: "none" },
+  history: { label: "试听列表", operators: ["is", "isNot"], valueType: "none" },
+  local: { label: "本地音乐", operators: ["is", "isNot"], valueType: "none" },
+  playlist: { label: "歌单", operators: ["is", "isNot"], valueType: "playlist" },
+  title: { label: "歌曲名", operators: ["contains", "notContains", "equals"], valueType: "text" },
+  artist: { label: "歌手", operators: ["contains", "notContains", "equals"], valueType: "text" },
+  album: { label: "专辑", operators: ["contains", "notContains", "equals"], valueType: "text" },
+  playCount: {
+    label: "播放次数",
+    operators: ["greaterThan", "lessThan", "equals"],
+    valueType: "number",
+    unit: "次",
+  },
+  localAddedDays: {
+    label: "加入本地音乐天数",
+    operators: ["lessThan", "greaterThan"],
+    valueType: "number",
+    unit: "天",
+  },
+};
+
+export const SMART_RULE_OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  is: "在其中",
+  isNot: "不在其中",
+  contains: "包含",
+  notContains: "不包含",
+  equals: "等于",
+  greaterThan: "大于",
+  lessThan: "小于",
+};
+
+// 新建规则时的默认值
+export const createDefaultSmartRule = (field: SmartRuleField = "favorite"): SmartRule => {
+  const option = SMART_RULE_FIELDS[field];
+  return {
+    field,
+    operator: option.operators[0],
+    value: option.valueType === "number" ? 0 : "",
+  };
+};
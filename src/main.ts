@@ -2,11 +2,12 @@ import { createApp } from "vue";
 import ElementPlus from "element-plus";
 import "element-plus/dist/index.css";
 import "./style.css";
-import router from "./router";
+import router, { restoreLastRoute } from "./router";
 import { createPinia } from "pinia";
 import App from "./App.vue";
 import { useThemeStore } from "./stores/theme";
 import { useLocalMusicStore } from "./stores/localMusic";
+import { shortcuts } from "./utils/shortcuts";
 
 const pinia = createPinia();
 const app = createApp(App);
@@ -25,6 +26,9 @@ localMusicStore.initializeFromStorage().catch((error) => {
   console.error("初始化本地音乐失败:", error);
 });
 
+// 监听应用内快捷键
+shortcuts.install();
+
 if (
   process.env.NODE_ENV === "development" &&
   (window as any)?.electronAPI?.openF12
@@ -38,4 +42,11 @@ if (
     }
   });
 }
-app.mount("#app");
+// 等待首次路由解析完成再挂载，独立窗口页面（如桌面歌词）不会先渲染出主界面；
+// 主界面先恢复上次所在的页面，避免先显示首页再跳转
+router
+  .isReady()
+  .then(restoreLastRoute)
+  .finally(() => {
+    app.mount("#app");
+  });
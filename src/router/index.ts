@@ -3,6 +3,15 @@ import Home from "@/views/Home.vue";
 import Settings from "@/views/Settings.vue";
 import SongDetail from "@/views/SongDetail.vue";
 import PlaylistDetail from "@/views/PlaylistDetail.vue";
+import DesktopLyric from "@/views/DesktopLyric.vue";
+import MiniPlayer from "@/views/MiniPlayer.vue";
+import Stats from "@/views/Stats.vue";
+import { persist } from "@/utils/persist";
+
+const LAST_ROUTE_KEY = "music-last-route";
+
+// 上次关闭前所在的页面（在首次导航覆盖之前读取）
+const lastRoute = persist.load<string>(LAST_ROUTE_KEY, "");
 
 const routes = [
   {
@@ -26,6 +35,23 @@ const routes = [
     name: "PlaylistDetail",
     component: PlaylistDetail,
   },
+  {
+    path: "/stats",
+    name: "Stats",
+    component: Stats,
+  },
+  {
+    path: "/desktop-lyric",
+    name: "DesktopLyric",
+    component: DesktopLyric,
+    meta: { standalone: true }, // 独立窗口页面（桌面歌词窗口），不显示侧边栏和播放栏
+  },
+  {
+    path: "/mini-player",
+    name: "MiniPlayer",
+    component: MiniPlayer,
+    meta: { standalone: true }, // 独立窗口页面（迷你播放器窗口）
+  },
 ];
 
 const router = createRouter({
@@ -33,4 +59,28 @@ const router = createRouter({
   routes,
 });
 
+// 记住主界面最后访问的页面（独立窗口页面不记录）
+router.afterEach((to) => {
+  if (to.meta.standalone) return;
+  persist.save(LAST_ROUTE_KEY, to.fullPath);
+});
+
+/**
+ * 启动时恢复上次所在的页面
+ * 只在从首页启动时恢复，独立窗口或带路径打开的页面保持不变
+ */
+export const restoreLastRoute = async () => {
+  if (router.currentRoute.value.fullPath !== "/") return;
+  if (!lastRoute || lastRoute === "/") return;
+
+  const target = router.resolve(lastRoute);
+  if (!target.matched.length || target.meta.standalone) return;
+
+  try {
+    await router.replace(target.fullPath);
+  } catch (error) {
+    console.error("恢复上次页面失败:", error);
+  }
+};
+
 export default router;
@@ -190,6 +190,16 @@ export class ElectronAdapter implements IStorageAdapter {
     return Array.from(this.metadata.values());
   }
 
+  async updateMetadata(
+    id: string,
+    patch: Partial<TrackMetadata>
+  ): Promise<void> {
+    const metadata = this.metadata.get(id);
+    if (!metadata) return;
+    this.metadata.set(id, { ...metadata, ...patch });
+    this.saveMetadataToStorage();
+  }
+
   async deleteTrack(id: string): Promise<void> {
     // 引用模式：只删除元数据，不删除原始文件
     this.metadata.delete(id);
@@ -149,6 +149,15 @@ export class IndexedDBAdapter implements IStorageAdapter {
     });
   }
 
+  async updateMetadata(
+    id: string,
+    patch: Partial<TrackMetadata>
+  ): Promise<void> {
+    const metadata = await this.getMetadata(id);
+    if (!metadata) return;
+    await this.saveMetadata(id, { ...metadata, ...patch });
+  }
+
   async deleteTrack(id: string): Promise<void> {
     if (!this.db) await this.init();
 
@@ -1,7 +1,10 @@
 // 存储接口 - 依赖倒置原则
 // 定义统一的存储接口，支持多种实现（IndexedDB、Electron FS、File System API 等）
 
-export interface TrackMetadata {
+import type { StoredLoudness } from "@/utils/loudness";
+
+// 含响度分析结果（用于音量标准化）
+export interface TrackMetadata extends StoredLoudness {
   id: string;
   name: string;
   artists: string;
@@ -39,6 +42,9 @@ export interface IStorageAdapter {
   // 获取所有元数据
   listTracks(): Promise<TrackMetadata[]>;
 
+  // 合并更新元数据（如后台分析完成的响度信息），文件已删除时忽略
+  updateMetadata(id: string, patch: Partial<TrackMetadata>): Promise<void>;
+
   // 删除音频文件
   deleteTrack(id: string): Promise<void>;
 
@@ -1,6 +1,14 @@
 import { defineStore } from "pinia";
 import { ref } from "vue";
 import { useSettingsStore } from "./settings";
+import type { Song } from "@/api/music";
+import { StorageFactory } from "@/storage/storageFactory";
+import {
+  analyzeLoudness,
+  combineLoudness,
+  getAlbumKey,
+} from "@/utils/loudness";
+import type { StoredLoudness } from "@/utils/loudness";
 
 // 音频缓存数据库配置
 const DB_NAME = "AudioCacheDB";
@@ -17,8 +25,8 @@ declare global {
   }
 }
 
-// 音频元数据
-interface AudioMetadata {
+// 音频元数据（含响度分析结果，用于音量标准化）
+interface AudioMetadata extends StoredLoudness {
   songId: string;
   url: string; // 原始URL
   cachedAt: number; // 缓存时间
@@ -184,13 +192,14 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
 
   // 从 audio 元素捕获已下载的音频数据（智能缓存，支持丝滑切换）
   const captureFromAudioElement = async (
-    songId: string,
+    song: Song,
     audioElement: HTMLAudioElement,
     audioUrl: string,
     quality: string,
     onProgress?: (percent: number) => void,
     onComplete?: (blobUrl: string) => void
   ): Promise<void> => {
+    const songId = song.id;
     try {
       await init();
 
@@ -296,7 +305,13 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
       await ensureCacheSpace();
 
       // 保存到缓存
-      await saveAudioCache(songId, blob, audioUrl, quality);
+      await saveAudioCache(
+        songId,
+        blob,
+        audioUrl,
+        quality,
+        getAlbumKey(song.album, song.artists)
+      );
 
       // 触发完成回调，返回 Blob URL
       if (onComplete) {
@@ -318,12 +333,13 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
 
   // 下载并缓存音频（独立下载，用于预加载等场景）
   const downloadAndCache = async (
-    songId: string,
+    song: Song,
     audioUrl: string,
     quality: string,
     onProgress?: (downloaded: number, total: number) => void,
     onComplete?: (blobUrl: string) => void
   ): Promise<Blob | null> => {
+    const songId = song.id;
     try {
       await init();
 
@@ -413,7 +429,13 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
       await ensureCacheSpace();
 
       // 保存到缓存
-      await saveAudioCache(songId, blob, audioUrl, quality);
+      await saveAudioCache(
+        songId,
+        blob,
+        audioUrl,
+        quality,
+        getAlbumKey(song.album, song.artists)
+      );
 
       // 触发完成回调
       if (onComplete) {
@@ -466,7 +488,8 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
     songId: string,
     blob: Blob,
     url: string,
-    quality: string
+    quality: string,
+    albumKey: string | null
   ): Promise<void> => {
     const now = Date.now();
     const metadata: AudioMetadata = {
@@ -477,6 +500,7 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
       size: blob.size,
       quality,
       expiresAt: now + URL_EXPIRY_HOURS * 60 * 60 * 1000,
+      ...(albumKey ? { albumKey } : {}),
     };
 
     // Electron 生产环境：保存到文件系统
@@ -495,6 +519,7 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
 
         if (result?.success) {
           console.log(`音频缓存已保存到文件系统: ${songId}`);
+          analyzeCachedAudio(songId, blob, albumKey);
           return;
         } else {
           throw new Error(result?.error || "保存到文件系统失败");
@@ -529,6 +554,50 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
     });
 
     console.log(`音频缓存保存成功: ${songId}`);
+    analyzeCachedAudio(songId, blob, albumKey);
+  };
+
+  // 缓存保存后在后台分析响度，完成后写入元数据并更新专辑响度（缓存流程不等待分析）
+  const analyzeCachedAudio = (
+    songId: string,
+    blob: Blob,
+    albumKey: string | null
+  ): void => {
+    analyzeLoudness(blob)
+      .then(async (loudness) => {
+        if (!loudness) return;
+        await updateMetadata(songId, { loudness });
+        if (albumKey) await updateAlbumLoudness(albumKey);
+      })
+      .catch((error) => console.error("保存响度信息失败:", error));
+  };
+
+  // 合并更新元数据（缓存已被删除时忽略）
+  const updateMetadata = async (
+    songId: string,
+    patch: Partial<AudioMetadata>
+  ): Promise<void> => {
+    // Electron 生产环境：更新文件系统中的元数据，不存在时继续检查 IndexedDB（可能是回退保存的）
+    if (shouldUseFileSystem()) {
+      const result = await window.electron?.invoke(
+        "update-audio-cache-metadata",
+        songId,
+        patch
+      );
+      if (result?.success) return;
+    }
+
+    const metadata = await getMetadata(songId);
+    if (!metadata) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.value!.transaction([METADATA_STORE], "readwrite");
+      const store = transaction.objectStore(METADATA_STORE);
+      const request = store.put({ ...metadata, ...patch });
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
   };
 
   // 获取元数据
@@ -545,6 +614,47 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
     });
   };
 
+  // 获取缓存歌曲的响度信息（单曲响度和专辑响度）
+  const getLoudness = async (songId: string): Promise<StoredLoudness | null> => {
+    try {
+      // Electron 生产环境：元数据保存在文件系统
+      if (shouldUseFileSystem()) {
+        const result = await window.electron?.invoke("has-audio-cache", songId);
+        if (result?.exists) return result.metadata;
+      }
+
+      return await getMetadata(songId);
+    } catch (error) {
+      console.error("获取响度信息失败:", error);
+      return null;
+    }
+  };
+
+  // 重新计算专辑响度：合并该专辑所有已分析的缓存和本地歌曲，写入每首歌的元数据
+  const updateAlbumLoudness = async (albumKey: string): Promise<void> => {
+    const localAdapter = StorageFactory.getAdapter();
+    const [cached, local] = await Promise.all([
+      getAllCachedMetadata(),
+      localAdapter.listTracks(),
+    ]);
+    const cachedTracks = cached.filter((m) => m.albumKey === albumKey);
+    const localTracks = local.filter((m) => m.albumKey === albumKey);
+
+    const albumLoudness = combineLoudness(
+      [...cachedTracks, ...localTracks].flatMap((m) =>
+        m.loudness ? [m.loudness] : []
+      )
+    );
+    if (!albumLoudness) return;
+
+    await Promise.all([
+      ...cachedTracks.map((m) => updateMetadata(m.songId, { albumLoudness })),
+      ...localTracks.map((m) =>
+        localAdapter.updateMetadata(m.id, { albumLoudness })
+      ),
+    ]);
+  };
+
   // 更新最后访问时间
   const updateLastAccessTime = async (songId: string): Promise<void> => {
     try {
@@ -606,6 +716,16 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
     });
   };
 
+  // 获取所有缓存歌曲的元数据（文件系统和回退保存到 IndexedDB 的）
+  const getAllCachedMetadata = async (): Promise<AudioMetadata[]> => {
+    const metadata = await getAllMetadata();
+    if (shouldUseFileSystem()) {
+      const result = await window.electron?.invoke("list-audio-cache-metadata");
+      if (result?.success) metadata.push(...result.metadata);
+    }
+    return metadata;
+  };
+
   // 删除缓存
   const deleteCache = async (songId: string): Promise<void> => {
     // Electron 生产环境：从文件系统删除
@@ -768,6 +888,8 @@ export const useAudioCacheStore = defineStore("audioCache", () => {
     hasValidCache,
     getCachedAudio,
     getCachedAudioURL,
+    getLoudness,
+    updateAlbumLoudness,
     captureFromAudioElement,
     downloadAndCache,
     abortDownload,
@@ -3,6 +3,8 @@ import { ref } from "vue";
 import type { Song } from "@/api/music";
 import { StorageFactory } from "@/storage/storageFactory";
 import type { TrackMetadata } from "@/storage/interface";
+import { analyzeLoudness } from "@/utils/loudness";
+import type { StoredLoudness } from "@/utils/loudness";
 import { useCacheStore } from "./cache";
 import { useAudioCacheStore } from "./audioCache";
 
@@ -190,6 +192,9 @@ export const useLocalMusicStore = defineStore("localMusic", () => {
       // 保存到存储
       await storageAdapter.saveTrack(metadata.id, file, metadata);
 
+      // 保存后在后台分析响度，导入不等待分析结果
+      analyzeTrack(metadata, file);
+
       // 获取播放 URL
       const fileUrl = await storageAdapter.getTrackURL(metadata.id);
 
@@ -355,6 +360,34 @@ export const useLocalMusicStore = defineStore("localMusic", () => {
     return undefined;
   };
 
+  // 分析本地音乐的响度并写入元数据，有专辑标识时同时更新专辑响度
+  const analyzeTrack = (metadata: TrackMetadata, file: Blob): void => {
+    const { id, duration, albumKey } = metadata;
+    analyzeLoudness(file, duration)
+      .then(async (loudness) => {
+        if (!loudness) return;
+        await storageAdapter.updateMetadata(id, { loudness });
+        if (albumKey) {
+          const audioCacheStore = useAudioCacheStore();
+          await audioCacheStore.updateAlbumLoudness(albumKey);
+        }
+      })
+      .catch((error) => console.error(`保存响度信息失败 [${id}]:`, error));
+  };
+
+  // 获取本地音乐的响度信息（单曲响度和专辑响度）
+  const getTrackLoudness = async (
+    fileId: string | number
+  ): Promise<StoredLoudness | null> => {
+    if (!fileId) return null;
+    try {
+      return await storageAdapter.getMetadata(String(fileId));
+    } catch (error) {
+      console.error(`获取响度信息失败 [${fileId}]:`, error);
+      return null;
+    }
+  };
+
   // 检查是否为本地音乐
   const isLocalMusic = (songId: string | number) => {
     if (!songId) return false;
@@ -486,6 +519,7 @@ export const useLocalMusicStore = defineStore("localMusic", () => {
     removeLocalFile,
     clearLocalFiles,
     getLocalFile,
+    getTrackLoudness,
     isLocalMusic,
     getStorageSize,
     isFileValid,
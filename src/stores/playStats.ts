@@ -0,0 +1,162 @@
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import type { PlayEvent } from "@/config/playStats";
+
+// 播放事件数据库配置
+const DB_NAME = "PlayStatsDB";
+const DB_VERSION = 1;
+const EVENT_STORE = "playEvents";
+
+export const usePlayStatsStore = defineStore("playStats", () => {
+  const db = ref<IDBDatabase | null>(null);
+  const isInitialized = ref(false);
+  // 每首歌的播放次数（调用 loadPlayCounts 后可用，写入新事件时同步更新）
+  const playCounts = ref<Record<string, number>>({});
+  const isPlayCountsLoaded = ref(false);
+
+  // 初始化数据库
+  const init = async (): Promise<void> => {
+    if (isInitialized.value) return;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        console.error("播放统计数据库打开失败:", request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        db.value = request.result;
+        isInitialized.value = true;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result;
+
+        // 创建播放事件存储（按开始时间建立索引，用于按日期范围查询）
+        if (!database.objectStoreNames.contains(EVENT_STORE)) {
+          const eventStore = database.createObjectStore(EVENT_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          eventStore.createIndex("startedAt", "startedAt", { unique: false });
+          eventStore.createIndex("songId", "songId", { unique: false });
+        }
+      };
+    });
+  };
+
+  // 写入或更新播放事件，返回事件 ID
+  const saveEvent = async (event: PlayEvent): Promise<number> => {
+    await init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.value!.transaction([EVENT_STORE], "readwrite");
+      const store = transaction.objectStore(EVENT_STORE);
+      // 新事件不能带 id 字段（值为 undefined 也不行），否则自增主键不会生成
+      const { id, ...data } = event;
+      const request = id === undefined ? store.add(data) : store.put(event);
+
+      request.onsuccess = () => {
+        if (id === undefined && isPlayCountsLoaded.value) {
+          playCounts.value[event.songId] = (playCounts.value[event.songId] || 0) + 1;
+        }
+        resolve(request.result as number);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // 统计每首歌的播放次数（智能歌单使用）
+  const loadPlayCounts = async (): Promise<void> => {
+    if (isPlayCountsLoaded.value) return;
+    await init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.value!.transaction([EVENT_STORE], "readonly");
+      const index = transaction.objectStore(EVENT_STORE).index("songId");
+      const request = index.openKeyCursor();
+      const counts: Record<string, number> = {};
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const songId = String(cursor.key);
+          counts[songId] = (counts[songId] || 0) + 1;
+          cursor.continue();
+          return;
+        }
+        playCounts.value = counts;
+        isPlayCountsLoaded.value = true;
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // 查询开始时间在 [from, to) 范围内的播放事件（按开始时间排序），不传时查询全部
+  const getEvents = async (from?: number, to?: number): Promise<PlayEvent[]> => {
+    await init();
+
+    let range: IDBKeyRange | undefined;
+    if (from !== undefined && to !== undefined) {
+      range = IDBKeyRange.bound(from, to, false, true);
+    } else if (from !== undefined) {
+      range = IDBKeyRange.lowerBound(from);
+    } else if (to !== undefined) {
+      range = IDBKeyRange.upperBound(to, true);
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.value!.transaction([EVENT_STORE], "readonly");
+      const index = transaction.objectStore(EVENT_STORE).index("startedAt");
+      const request = index.getAll(range);
+
+      request.onsuccess = () => resolve(request.result as PlayEvent[]);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // 全部播放事件的数量
+  const countEvents = async (): Promise<number> => {
+    await init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.value!.transaction([EVENT_STORE], "readonly");
+      const request = transaction.objectStore(EVENT_STORE).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  // 清空所有播放事件
+  const clearEvents = async (): Promise<void> => {
+    await init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.value!.transaction([EVENT_STORE], "readwrite");
+      const request = transaction.objectStore(EVENT_STORE).clear();
+
+      request.onsuccess = () => {
+        playCounts.value = {};
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    isInitialized,
+    playCounts,
+    isPlayCountsLoaded,
+    init,
+    saveEvent,
+    loadPlayCounts,
+    getEvents,
+    countEvents,
+    clearEvents,
+  };
+});
@@ -3,38 +3,122 @@ import { ref, computed, watch, nextTick } from "vue";
 import type { Song, SongDetail } from "@/api/music";
 import { persist } from "@/utils/persist";
 import { tabSync } from "@/utils/sync";
+import { shuffleArray } from "@/utils/helpers";
 
 // 播放模式
 export enum PlayMode {
-  SEQUENCE = "sequence", // 顺序播放
+  SEQUENCE_NO_WRAP = "sequence-no-wrap", // 顺序播放（播完列表后停止）
+  REPEAT_ALL = "sequence", // 列表循环（沿用旧的 "sequence" 值，兼容已保存的状态）
   RANDOM = "random", // 随机播放
   LOOP = "loop", // 单曲循环
 }
 
+// 播放模式切换顺序
+const PLAY_MODE_CYCLE = [
+  PlayMode.SEQUENCE_NO_WRAP,
+  PlayMode.REPEAT_ALL,
+  PlayMode.RANDOM,
+  PlayMode.LOOP,
+];
+
+// 睡眠定时器类型
+export type SleepTimerMode =
+  | "minutes" // N 分钟后停止
+  | "end-of-track" // 当前歌曲播放完后停止
+  | "tracks"; // 播放完 N 首歌曲后停止
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  // 到期时间戳（仅 minutes 模式）
+  endsAt: number | null;
+  // 剩余歌曲数（end-of-track / tracks 模式，当前歌曲计为 1）
+  tracksRemaining: number | null;
+}
+
+// A-B 循环区间（秒），end 为 null 表示只标记了 A 点
+export interface ABLoop {
+  start: number;
+  end: number | null;
+}
+
+// 保存的命名循环区间
+export interface SavedLoop {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  createdAt: number;
+}
+
+// 当前歌曲的显示信息（系统媒体控件、托盘、桌面歌词等同步使用）
+export interface CurrentSongInfo {
+  title: string;
+  artist: string;
+  album: string;
+  cover: string;
+}
+
+// 播放器组件提供的播放控制（由播放器组件处理空列表、待播队列等情况）
+export interface PlayerControls {
+  // 切换播放/暂停
+  togglePlay: () => void;
+  // 跳转到指定位置（秒）
+  seek: (time: number) => void;
+}
+
 const STORAGE_KEY = "music-player-state";
 
+// 播放速度范围
+export const PLAYBACK_RATE_MIN = 0.5;
+export const PLAYBACK_RATE_MAX = 2;
+
 export const usePlayerStore = defineStore("player", () => {
   // 从 localStorage 加载保存的状态
   const savedState = persist.load(STORAGE_KEY, {
     playlist: [],
     currentIndex: -1,
-    playMode: PlayMode.SEQUENCE,
+    queue: [], // 待播队列（下一首播放），优先于播放列表
+    queueCurrent: null, // 当前正在播放的队列歌曲
+    playMode: PlayMode.REPEAT_ALL,
+    shuffleOrder: [], // 随机播放顺序（歌曲 ID 排列）
+    shufflePosition: -1, // 当前歌曲在随机顺序中的位置
     volume: 0.7,
+    playbackRate: 1, // 全局播放速度
+    songPlaybackRates: {}, // 单曲播放速度 { songId: rate }，优先于全局速度
     savedProgress: {}, // 保存每首歌的播放进度 { songId: currentTime }
+    savedLoops: {}, // 保存每首歌的命名循环区间 { songId: SavedLoop[] }
   });
 
   // 播放列表
   const playlist = ref<Song[]>(savedState.playlist);
   // 当前播放索引
   const currentIndex = ref(savedState.currentIndex);
+  // 待播队列（"即将播放"），播完后再回到播放列表继续
+  const queue = ref<Song[]>(savedState.queue || []);
+  // 当前正在播放的队列歌曲（播放队列歌曲时 currentIndex 仍指向播放列表中的位置）
+  const queueCurrent = ref<Song | null>(savedState.queueCurrent || null);
   // 是否正在播放（刷新后不自动播放）
   const isPlaying = ref(false);
   // 播放模式
   const playMode = ref<PlayMode>(savedState.playMode);
+  // 播完当前歌曲后停止（一次性，触发后自动取消）
+  const stopAfterCurrent = ref(false);
+  // 睡眠定时器（不持久化，只在标签页之间同步）
+  const sleepTimer = ref<SleepTimer | null>(null);
+  // 随机播放顺序：一轮内按此顺序播放，全部播放完才开始新一轮
+  const shuffleOrder = ref<string[]>(savedState.shuffleOrder || []);
+  // 当前歌曲在随机顺序中的位置（之前的位置即本轮的播放历史）
+  const shufflePosition = ref<number>(savedState.shufflePosition ?? -1);
   // 当前歌曲详情
   const currentSongDetail = ref<SongDetail | null>(null);
   // 音量 (0-1)
   const volume = ref(savedState.volume);
+  // 全局播放速度
+  const playbackRate = ref<number>(savedState.playbackRate ?? 1);
+  // 单曲播放速度（设置后该歌曲不再跟随全局速度）
+  const songPlaybackRates = ref<Record<string, number>>(
+    savedState.songPlaybackRates || {}
+  );
   // 当前播放时间
   const currentTime = ref(0);
   // 歌曲总时长
@@ -43,6 +127,12 @@ export const usePlayerStore = defineStore("player", () => {
   const savedProgress = ref<Record<string, number>>(
     savedState.savedProgress || {}
   );
+  // 保存的命名循环区间
+  const savedLoops = ref<Record<string, SavedLoop[]>>(
+    savedState.savedLoops || {}
+  );
+  // 当前 A-B 循环区间（只作用于当前歌曲，切歌后清除）
+  const abLoop = ref<ABLoop | null>(null);
   // 是否显示播放列表
   const showPlaylist = ref(false);
   // 是否显示歌曲详情页
@@ -56,7 +146,20 @@ export const usePlayerStore = defineStore("player", () => {
   // 监听状态变化，自动保存并同步到其他标签页
   // 注意：不同步 isPlaying 和 currentTime，因为每个标签页应该独立控制播放
   watch(
-    [playlist, currentIndex, playMode, volume, savedProgress],
+    [
+      playlist,
+      currentIndex,
+      queue,
+      queueCurrent,
+      playMode,
+      shuffleOrder,
+      shufflePosition,
+      volume,
+      playbackRate,
+      songPlaybackRates,
+      savedProgress,
+      savedLoops,
+    ],
     () => {
       // 如果正在同步，跳过广播
       if (isSyncing) return;
@@ -64,9 +167,16 @@ export const usePlayerStore = defineStore("player", () => {
       const state = {
         playlist: playlist.value,
         currentIndex: currentIndex.value,
+        queue: queue.value,
+        queueCurrent: queueCurrent.value,
         playMode: playMode.value,
+        shuffleOrder: shuffleOrder.value,
+        shufflePosition: shufflePosition.value,
         volume: volume.value,
+        playbackRate: playbackRate.value,
+        songPlaybackRates: songPlaybackRates.value,
         savedProgress: savedProgress.value,
+        savedLoops: savedLoops.value,
       };
       persist.save(STORAGE_KEY, state);
 
@@ -84,12 +194,21 @@ export const usePlayerStore = defineStore("player", () => {
     // 更新本地状态
     playlist.value = data.playlist || [];
     currentIndex.value = data.currentIndex ?? -1;
-    playMode.value = data.playMode || PlayMode.SEQUENCE;
+    queue.value = data.queue || [];
+    queueCurrent.value = data.queueCurrent || null;
+    playMode.value = data.playMode || PlayMode.REPEAT_ALL;
+    shuffleOrder.value = data.shuffleOrder || [];
+    shufflePosition.value = data.shufflePosition ?? -1;
     volume.value = data.volume ?? 0.7;
+    playbackRate.value = data.playbackRate ?? 1;
+    songPlaybackRates.value = data.songPlaybackRates || {};
     savedProgress.value = data.savedProgress || {};
+    savedLoops.value = data.savedLoops || {};
 
     // ✅ 更新 currentSong
-    if (currentIndex.value >= 0 && currentIndex.value < playlist.value.length) {
+    if (queueCurrent.value) {
+      currentSong.value = queueCurrent.value;
+    } else if (currentIndex.value >= 0 && currentIndex.value < playlist.value.length) {
       currentSong.value = playlist.value[currentIndex.value];
     } else {
       currentSong.value = null;
@@ -101,19 +220,65 @@ export const usePlayerStore = defineStore("player", () => {
     });
   });
 
+  // 睡眠定时器变化时同步到其他标签页
+  watch(sleepTimer, (timer) => {
+    if (isSyncing) return;
+    tabSync.broadcast("player-sleep-timer", { timer });
+  });
+
+  tabSync.subscribe("player-sleep-timer", (data) => {
+    isSyncing = true;
+    sleepTimer.value = data.timer || null;
+    nextTick(() => {
+      isSyncing = false;
+    });
+  });
+
   // 当前播放歌曲（直接存储，避免 computed 的多次触发）
   const currentSong = ref<Song | null>(
-    currentIndex.value >= 0 && currentIndex.value < savedState.playlist.length
-      ? savedState.playlist[currentIndex.value]
-      : null
+    queueCurrent.value ??
+      (currentIndex.value >= 0 && currentIndex.value < savedState.playlist.length
+        ? savedState.playlist[currentIndex.value]
+        : null)
   );
 
+  // 当前歌曲的显示信息（歌曲详情加载后信息更完整，优先使用）
+  const currentSongInfo = computed<CurrentSongInfo | null>(() => {
+    const song = currentSong.value;
+    if (!song) return null;
+    const detail =
+      currentSongDetail.value?.id === song.id ? currentSongDetail.value : null;
+    return {
+      title: detail?.name || song.name || "",
+      artist: detail?.ar_name || song.artists || "",
+      album: detail?.al_name || song.album || "",
+      cover: song.picUrl || detail?.pic || "",
+    };
+  });
+
   // 播放进度 (0-100)
   const progress = computed(() => {
     if (duration.value === 0) return 0;
     return (currentTime.value / duration.value) * 100;
   });
 
+  // 获取歌曲的播放速度（单曲速度优先，否则使用全局速度）
+  const getPlaybackRate = (songId?: string): number => {
+    if (songId && songPlaybackRates.value[songId] !== undefined) {
+      return songPlaybackRates.value[songId];
+    }
+    return playbackRate.value;
+  };
+
+  // 当前歌曲实际使用的播放速度
+  const currentPlaybackRate = computed(() => getPlaybackRate(currentSong.value?.id));
+
+  // 当前歌曲是否使用单曲播放速度
+  const hasSongPlaybackRate = computed(() => {
+    const songId = currentSong.value?.id;
+    return !!songId && songPlaybackRates.value[songId] !== undefined;
+  });
+
   // 添加歌曲到播放列表（不播放）
   const addToPlaylist = (song: Song) => {
     const index = playlist.value.findIndex((s) => s.id === song.id);
@@ -166,6 +331,9 @@ export const usePlayerStore = defineStore("player", () => {
     //   });
     // }
 
+    // 直接播放的歌曲属于播放列表，不再处于队列播放状态
+    queueCurrent.value = null;
+
     const index = playlist.value.findIndex((s) => s.id === song.id);
     if (index === -1) {
       // 歌曲不在播放列表中，添加到列表末尾
@@ -216,36 +384,179 @@ export const usePlayerStore = defineStore("player", () => {
     isPlaying.value = !isPlaying.value;
   };
 
-  // 获取随机索引（避免重复）
-  const getRandomIndex = (): number => {
-    if (playlist.value.length === 1) {
-      return 0;
+  // ========== 随机播放顺序 ==========
+  // 生成随机顺序：firstId（通常是当前歌曲）固定在最前面，其余歌曲打乱
+  const buildShuffleOrder = (firstId?: string) => {
+    const ids = playlist.value.map((s) => s.id);
+    const rest = shuffleArray(ids.filter((id) => id !== firstId));
+    if (firstId && ids.includes(firstId)) {
+      shuffleOrder.value = [firstId, ...rest];
+      shufflePosition.value = 0;
+    } else {
+      shuffleOrder.value = rest;
+      shufflePosition.value = -1;
     }
-    let newIndex: number;
-    do {
-      newIndex = Math.floor(Math.random() * playlist.value.length);
-    } while (newIndex === currentIndex.value);
-    return newIndex;
   };
 
+  // 播放列表变化后重建随机顺序：保留本轮已播放的部分，未播放的部分（含新歌曲）重新打乱
+  const syncShuffleOrder = () => {
+    const ids = playlist.value.map((s) => s.id);
+    const idSet = new Set(ids);
+    const played = shuffleOrder.value
+      .slice(0, shufflePosition.value + 1)
+      .filter((id) => idSet.has(id));
+    const playedSet = new Set(played);
+    const unplayed = shuffleArray(ids.filter((id) => !playedSet.has(id)));
+    shuffleOrder.value = [...played, ...unplayed];
+    shufflePosition.value = played.length - 1;
+  };
+
+  // 随机顺序是否与播放列表一致（同一组歌曲）
+  const isShuffleOrderInSync = () => {
+    if (shuffleOrder.value.length !== playlist.value.length) return false;
+    const orderSet = new Set(shuffleOrder.value);
+    return playlist.value.every((s) => orderSet.has(s.id));
+  };
+
+  // 开始新一轮：重新打乱全部歌曲，并避免与上一首重复
+  const startNewShuffleCycle = () => {
+    const order = shuffleArray(playlist.value.map((s) => s.id));
+    if (order.length > 1 && order[0] === currentSong.value?.id) {
+      const swapIndex = 1 + Math.floor(Math.random() * (order.length - 1));
+      [order[0], order[swapIndex]] = [order[swapIndex], order[0]];
+    }
+    shuffleOrder.value = order;
+    shufflePosition.value = 0;
+  };
+
+  // 随机顺序中位置对应的播放列表索引
+  const getShuffleIndexAt = (position: number): number => {
+    const id = shuffleOrder.value[position];
+    const index = playlist.value.findIndex((s) => s.id === id);
+    return index === -1 ? Math.max(0, currentIndex.value) : index;
+  };
+
+  // 随机模式的下一首：沿随机顺序前进，本轮播完才开始新一轮
+  const getNextShuffleIndex = (): number => {
+    if (!isShuffleOrderInSync()) {
+      syncShuffleOrder();
+    }
+    if (shufflePosition.value >= shuffleOrder.value.length - 1) {
+      startNewShuffleCycle();
+    } else {
+      shufflePosition.value++;
+    }
+    return getShuffleIndexAt(shufflePosition.value);
+  };
+
+  // 随机模式的上一首：沿本轮播放历史后退，到达本轮开头时重新播放当前歌曲
+  const getPrevShuffleIndex = (): number => {
+    if (!isShuffleOrderInSync()) {
+      syncShuffleOrder();
+    }
+    if (shufflePosition.value > 0) {
+      shufflePosition.value--;
+    }
+    return getShuffleIndexAt(Math.max(0, shufflePosition.value));
+  };
+
+  // 播放列表中的歌曲增删后重建随机顺序
+  watch(
+    () => playlist.value.map((s) => s.id),
+    () => {
+      if (isSyncing || playMode.value !== PlayMode.RANDOM) return;
+      if (!isShuffleOrderInSync()) {
+        syncShuffleOrder();
+      }
+    }
+  );
+
+  // 切换到随机模式时，以当前歌曲为起点生成新的随机顺序
+  watch(playMode, (mode) => {
+    if (isSyncing || mode !== PlayMode.RANDOM) return;
+    buildShuffleOrder(
+      queueCurrent.value
+        ? playlist.value[currentIndex.value]?.id
+        : currentSong.value?.id
+    );
+  });
+
+  // 切歌后清除 A-B 循环
+  watch(
+    () => currentSong.value?.id,
+    () => {
+      abLoop.value = null;
+    }
+  );
+
+  // 用户直接选择歌曲播放时，把它移到随机顺序的当前位置，本轮未播放的歌曲保持不变
+  watch(currentSong, (song) => {
+    if (
+      isSyncing ||
+      !song ||
+      queueCurrent.value ||
+      playMode.value !== PlayMode.RANDOM
+    ) {
+      return;
+    }
+    const order = shuffleOrder.value;
+    const index = order.indexOf(song.id);
+    if (index === shufflePosition.value) return;
+    if (index === -1) {
+      syncShuffleOrder();
+      return;
+    }
+    const newOrder = [...order];
+    newOrder.splice(index, 1);
+    let position = shufflePosition.value;
+    if (index < position) {
+      position--;
+    }
+    newOrder.splice(position + 1, 0, song.id);
+    shuffleOrder.value = newOrder;
+    shufflePosition.value = position + 1;
+  });
+
   // 切换到指定索引的歌曲
   const switchToIndex = (newIndex: number) => {
-    const oldIndex = currentIndex.value;
+    const oldSongId = currentSong.value?.id;
+    queueCurrent.value = null;
     currentIndex.value = newIndex;
     currentSong.value = playlist.value[newIndex];
 
-    // 如果索引没变（只有一首歌的情况），更新时间戳强制重新加载
-    if (newIndex === oldIndex) {
+    // 如果歌曲没变（只有一首歌的情况），更新时间戳强制重新加载
+    if (currentSong.value?.id === oldSongId) {
       reloadTimestamp.value = Date.now();
     }
 
     isPlaying.value = true;
   };
 
+  // 播放队列中的第一首歌曲
+  const playFromQueue = () => {
+    const song = queue.value.shift();
+    if (!song) return false;
+
+    const oldSongId = currentSong.value?.id;
+    queueCurrent.value = song;
+    currentSong.value = song;
+    if (song.id === oldSongId) {
+      reloadTimestamp.value = Date.now();
+    }
+    isPlaying.value = true;
+    return true;
+  };
+
   // 上一首
   const playPrev = () => {
     if (playlist.value.length === 0) return;
 
+    // 正在播放队列歌曲时，回到进入队列前播放列表中的歌曲
+    if (queueCurrent.value && currentIndex.value >= 0) {
+      switchToIndex(currentIndex.value);
+      return;
+    }
+
     // 重置 API 健康检查状态（可选功能，已禁用）
     // if (typeof window !== "undefined") {
     //   import("@/utils/request").then(({ resetAPIHealthStatus }) => {
@@ -255,12 +566,15 @@ export const usePlayerStore = defineStore("player", () => {
 
     let newIndex: number;
     if (playMode.value === PlayMode.RANDOM) {
-      newIndex = getRandomIndex();
-    } else {
+      newIndex = getPrevShuffleIndex();
+    } else if (currentIndex.value <= 0) {
+      // 顺序播放不回绕：停在第一首（重新播放）
       newIndex =
-        currentIndex.value <= 0
-          ? playlist.value.length - 1
-          : currentIndex.value - 1;
+        playMode.value === PlayMode.SEQUENCE_NO_WRAP
+          ? 0
+          : playlist.value.length - 1;
+    } else {
+      newIndex = currentIndex.value - 1;
     }
 
     switchToIndex(newIndex);
@@ -273,6 +587,14 @@ export const usePlayerStore = defineStore("player", () => {
 
   // 下一首
   const playNext = () => {
+    // 待播队列优先
+    if (playFromQueue()) {
+      if (import.meta.env.DEV) {
+        console.log(`playNext: 播放队列歌曲: ${currentSong.value?.name}`);
+      }
+      return;
+    }
+
     if (playlist.value.length === 0) return;
 
     // 重置 API 健康检查状态（可选功能，已禁用）
@@ -284,12 +606,19 @@ export const usePlayerStore = defineStore("player", () => {
 
     let newIndex: number;
     if (playMode.value === PlayMode.RANDOM) {
-      newIndex = getRandomIndex();
+      newIndex = getNextShuffleIndex();
+    } else if (currentIndex.value >= playlist.value.length - 1) {
+      // 顺序播放不回绕：到达列表末尾后停止
+      if (playMode.value === PlayMode.SEQUENCE_NO_WRAP) {
+        isPlaying.value = false;
+        if (import.meta.env.DEV) {
+          console.log("playNext: 已到达播放列表末尾，停止播放");
+        }
+        return;
+      }
+      newIndex = 0;
     } else {
-      newIndex =
-        currentIndex.value >= playlist.value.length - 1
-          ? 0
-          : currentIndex.value + 1;
+      newIndex = currentIndex.value + 1;
     }
 
     switchToIndex(newIndex);
@@ -300,15 +629,131 @@ export const usePlayerStore = defineStore("player", () => {
     }
   };
 
+  // 预测当前歌曲自然播放结束后的下一首（不改变任何状态），用于预加载和交叉淡入淡出
+  // 返回 null 表示无法提前确定（如随机模式开始新一轮）或将停止播放
+  const peekNextSong = (): Song | null => {
+    if (playMode.value === PlayMode.LOOP) return currentSong.value;
+    if (queue.value.length > 0) return queue.value[0];
+    if (playlist.value.length === 0) return null;
+
+    if (playMode.value === PlayMode.RANDOM) {
+      if (
+        !isShuffleOrderInSync() ||
+        shufflePosition.value >= shuffleOrder.value.length - 1
+      ) {
+        return null;
+      }
+      const id = shuffleOrder.value[shufflePosition.value + 1];
+      return playlist.value.find((s) => s.id === id) ?? null;
+    }
+
+    if (currentIndex.value >= playlist.value.length - 1) {
+      return playMode.value === PlayMode.SEQUENCE_NO_WRAP
+        ? null
+        : playlist.value[0];
+    }
+    return playlist.value[currentIndex.value + 1];
+  };
+
   // 切换播放模式
   const togglePlayMode = () => {
-    const modes = [PlayMode.SEQUENCE, PlayMode.RANDOM, PlayMode.LOOP];
-    const currentModeIndex = modes.indexOf(playMode.value);
-    playMode.value = modes[(currentModeIndex + 1) % modes.length];
+    const currentModeIndex = PLAY_MODE_CYCLE.indexOf(playMode.value);
+    playMode.value =
+      PLAY_MODE_CYCLE[(currentModeIndex + 1) % PLAY_MODE_CYCLE.length];
+  };
+
+  // 设置播放模式（系统媒体控件等外部控制）
+  const setPlayMode = (mode: PlayMode) => {
+    playMode.value = mode;
+  };
+
+  // 切换"播完当前歌曲后停止"
+  const toggleStopAfterCurrent = () => {
+    stopAfterCurrent.value = !stopAfterCurrent.value;
+  };
+
+  // ========== 睡眠定时器 ==========
+  // 启动睡眠定时器：minutes 模式 value 为分钟数，tracks 模式 value 为歌曲数
+  const startSleepTimer = (mode: SleepTimerMode, value: number = 1) => {
+    const amount = Math.max(1, Math.floor(value));
+    sleepTimer.value = {
+      mode,
+      endsAt: mode === "minutes" ? Date.now() + amount * 60 * 1000 : null,
+      tracksRemaining:
+        mode === "tracks" ? amount : mode === "end-of-track" ? 1 : null,
+    };
+  };
+
+  // 取消睡眠定时器
+  const cancelSleepTimer = () => {
+    sleepTimer.value = null;
+  };
+
+  // 一首歌自然播放结束时调用，返回 true 表示定时器到期、应停止播放
+  const consumeSleepTimerTrack = (): boolean => {
+    const timer = sleepTimer.value;
+    if (!timer || timer.tracksRemaining === null) return false;
+    if (timer.tracksRemaining <= 1) {
+      sleepTimer.value = null;
+      return true;
+    }
+    sleepTimer.value = { ...timer, tracksRemaining: timer.tracksRemaining - 1 };
+    return false;
+  };
+
+  // ========== 待播队列 ==========
+  // 插入到队列开头（下一首播放），多首歌曲保持原有顺序
+  const enqueueNext = (songs: Song | Song[]) => {
+    const list = Array.isArray(songs) ? songs : [songs];
+    const ids = new Set(list.map((s) => s.id));
+    queue.value = [...list, ...queue.value.filter((s) => !ids.has(s.id))];
+  };
+
+  // 追加到队列末尾
+  const enqueueLast = (songs: Song | Song[]) => {
+    const list = Array.isArray(songs) ? songs : [songs];
+    const ids = new Set(list.map((s) => s.id));
+    queue.value = [...queue.value.filter((s) => !ids.has(s.id)), ...list];
+  };
+
+  // 从队列中移除
+  const dequeue = (index: number) => {
+    if (index < 0 || index >= queue.value.length) return false;
+    queue.value.splice(index, 1);
+    return true;
+  };
+
+  // 调整队列中歌曲的顺序
+  const moveInQueue = (fromIndex: number, toIndex: number) => {
+    if (
+      fromIndex < 0 ||
+      fromIndex >= queue.value.length ||
+      toIndex < 0 ||
+      toIndex >= queue.value.length
+    ) {
+      return false;
+    }
+    const [movedSong] = queue.value.splice(fromIndex, 1);
+    queue.value.splice(toIndex, 0, movedSong);
+    return true;
+  };
+
+  // 清空队列
+  const clearQueue = () => {
+    queue.value = [];
   };
 
   // 从播放列表删除歌曲
   const removeFromPlaylist = (index: number) => {
+    // 正在播放队列歌曲时，删除播放列表中的歌曲不影响当前播放
+    if (queueCurrent.value) {
+      if (index <= currentIndex.value) {
+        currentIndex.value--;
+      }
+      playlist.value.splice(index, 1);
+      return;
+    }
+
     // 如果删除的是当前播放的歌曲
     if (index === currentIndex.value) {
       // 如果列表只有一首歌，清空状态并停止播放
@@ -347,6 +792,10 @@ export const usePlayerStore = defineStore("player", () => {
   const clearPlaylist = () => {
     playlist.value = [];
     currentIndex.value = -1;
+    queue.value = [];
+    queueCurrent.value = null;
+    shuffleOrder.value = [];
+    shufflePosition.value = -1;
     currentSong.value = null;
     isPlaying.value = false;
     currentSongDetail.value = null;
@@ -355,6 +804,14 @@ export const usePlayerStore = defineStore("player", () => {
     duration.value = 0;
   };
 
+  // 用一组歌曲替换播放列表，并从第一首开始播放
+  const playSongs = (songs: Song[]) => {
+    if (songs.length === 0) return false;
+    clearPlaylist();
+    songs.forEach((song) => addToPlaylist(song));
+    return playSong(songs[0]);
+  };
+
   // 设置当前歌曲详情
   const setCurrentSongDetail = (detail: SongDetail) => {
     // 🔑 创建新对象引用，确保 watch 能够触发
@@ -366,6 +823,21 @@ export const usePlayerStore = defineStore("player", () => {
     volume.value = Math.max(0, Math.min(1, val));
   };
 
+  // 设置播放速度（传入 songId 时只作用于该歌曲）
+  const setPlaybackRate = (rate: number, songId?: string) => {
+    const clamped = Math.max(PLAYBACK_RATE_MIN, Math.min(PLAYBACK_RATE_MAX, rate));
+    if (songId) {
+      songPlaybackRates.value[songId] = clamped;
+    } else {
+      playbackRate.value = clamped;
+    }
+  };
+
+  // 清除歌曲的单曲播放速度，恢复跟随全局速度
+  const clearSongPlaybackRate = (songId: string) => {
+    delete songPlaybackRates.value[songId];
+  };
+
   // 设置当前播放时间
   const setCurrentTime = (time: number) => {
     currentTime.value = time;
@@ -391,6 +863,70 @@ export const usePlayerStore = defineStore("player", () => {
     delete savedProgress.value[songId];
   };
 
+  // A-B 循环是否已生效（A、B 点都已标记）
+  const isABLoopActive = computed(
+    () => !!abLoop.value && abLoop.value.end !== null
+  );
+
+  // 标记 A 点（会清除已有的 B 点）
+  const setLoopPointA = (time: number) => {
+    abLoop.value = { start: Math.max(0, time), end: null };
+  };
+
+  // 标记 B 点，B 点早于 A 点时自动交换
+  const setLoopPointB = (time: number) => {
+    if (!abLoop.value) return;
+    const start = Math.min(abLoop.value.start, time);
+    const end = Math.max(abLoop.value.start, time);
+    if (end - start < 0.5) return; // 区间过短，忽略
+    abLoop.value = { start, end };
+  };
+
+  // 直接设置循环区间（例如从歌词行创建）
+  const setABLoop = (start: number, end: number) => {
+    abLoop.value = {
+      start: Math.max(0, Math.min(start, end)),
+      end: Math.max(start, end),
+    };
+  };
+
+  // 清除 A-B 循环
+  const clearABLoop = () => {
+    abLoop.value = null;
+  };
+
+  // 获取歌曲保存的循环区间
+  const getSavedLoops = (songId: string): SavedLoop[] => {
+    return savedLoops.value[songId] || [];
+  };
+
+  // 把当前循环区间保存为命名循环
+  const saveABLoop = (name: string): SavedLoop | null => {
+    const song = currentSong.value;
+    const loop = abLoop.value;
+    if (!song || !loop || loop.end === null) return null;
+
+    const saved: SavedLoop = {
+      id: `loop-${Date.now()}`,
+      name,
+      start: loop.start,
+      end: loop.end,
+      createdAt: Date.now(),
+    };
+    savedLoops.value[song.id] = [...getSavedLoops(song.id), saved];
+    return saved;
+  };
+
+  // 删除保存的循环区间
+  const deleteSavedLoop = (songId: string, loopId: string) => {
+    const loops = getSavedLoops(songId).filter((loop) => loop.id !== loopId);
+    if (loops.length > 0) {
+      savedLoops.value[songId] = loops;
+    } else {
+      delete savedLoops.value[songId];
+    }
+  };
+
   // 切换播放列表显示
   const togglePlaylist = () => {
     showPlaylist.value = !showPlaylist.value;
@@ -405,10 +941,18 @@ export const usePlayerStore = defineStore("player", () => {
     // state
     playlist,
     currentIndex,
+    queue,
+    queueCurrent,
     isPlaying,
     playMode,
+    stopAfterCurrent,
+    sleepTimer,
     currentSongDetail,
     volume,
+    playbackRate,
+    songPlaybackRates,
+    abLoop,
+    savedLoops,
     currentTime,
     duration,
     showPlaylist,
@@ -416,23 +960,49 @@ export const usePlayerStore = defineStore("player", () => {
     reloadTimestamp,
     // computed
     currentSong,
+    currentSongInfo,
     progress,
+    currentPlaybackRate,
+    hasSongPlaybackRate,
+    isABLoopActive,
     // actions
     addToPlaylist,
     playSong,
     togglePlay,
     playPrev,
     playNext,
+    peekNextSong,
     switchToIndex,
+    enqueueNext,
+    enqueueLast,
+    dequeue,
+    moveInQueue,
+    clearQueue,
     togglePlayMode,
+    setPlayMode,
+    toggleStopAfterCurrent,
+    startSleepTimer,
+    cancelSleepTimer,
+    consumeSleepTimerTrack,
     removeFromPlaylist,
     clearPlaylist,
+    playSongs,
     setCurrentSongDetail,
     setVolume,
+    getPlaybackRate,
+    setPlaybackRate,
+    clearSongPlaybackRate,
     setCurrentTime,
     setDuration,
     getSavedProgress,
     clearSavedProgress,
+    setLoopPointA,
+    setLoopPointB,
+    setABLoop,
+    clearABLoop,
+    getSavedLoops,
+    saveABLoop,
+    deleteSavedLoop,
     togglePlaylist,
     toggleDetail,
   };
@@ -1,8 +1,16 @@
 import { defineStore } from "pinia";
-import { ref, watch, nextTick } from "vue";
+import { ref, computed, watch, nextTick } from "vue";
 import type { Song } from "@/api/music";
+import type { SmartPlaylist, SmartRule, SmartRuleMatch } from "@/config/smartPlaylist";
 import { persist } from "@/utils/persist";
 import { tabSync } from "@/utils/sync";
+import {
+  createSmartPlaylistIndex,
+  evaluateSmartPlaylist,
+  usesPlayCount,
+} from "@/utils/smartPlaylist";
+import { useLocalMusicStore } from "./localMusic";
+import { usePlayStatsStore } from "./playStats";
 
 // 歌单类型
 export interface CustomPlaylist {
@@ -13,6 +21,26 @@ export interface CustomPlaylist {
   songs: Song[];
   createdAt: number;
   updatedAt: number;
+  // 所在文件夹 ID（为空时在顶层）
+  folderId?: string | null;
+}
+
+// 歌单文件夹（可以嵌套）
+export interface PlaylistFolder {
+  id: string;
+  name: string;
+  // 上级文件夹 ID（为空时在顶层）
+  parentId: string | null;
+  // 是否在侧边栏中折叠
+  collapsed: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 文件夹中的直接子项
+export interface PlaylistFolderChildren {
+  folders: PlaylistFolder[];
+  playlists: CustomPlaylist[];
 }
 
 // 内置歌单ID
@@ -31,6 +59,8 @@ export const usePlaylistStore = defineStore("playlist", () => {
       playlists: [],
       historyList: [],
       favoriteList: [],
+      smartPlaylists: [],
+      folders: [],
     });
   } catch (error) {
     console.error("加载歌单数据失败:", error);
@@ -38,6 +68,8 @@ export const usePlaylistStore = defineStore("playlist", () => {
       playlists: [],
       historyList: [],
       favoriteList: [],
+      smartPlaylists: [],
+      folders: [],
     };
   }
 
@@ -47,6 +79,10 @@ export const usePlaylistStore = defineStore("playlist", () => {
   const historyList = ref<Song[]>(savedState.historyList);
   // 我喜欢/收藏列表
   const favoriteList = ref<Song[]>(savedState.favoriteList);
+  // 智能歌单（只保存规则）
+  const smartPlaylists = ref<SmartPlaylist[]>(savedState.smartPlaylists || []);
+  // 歌单文件夹
+  const folders = ref<PlaylistFolder[]>(savedState.folders || []);
 
   // 标志：是否正在从其他标签页同步数据（避免循环广播）
   let isSyncing = false;
@@ -63,6 +99,8 @@ export const usePlaylistStore = defineStore("playlist", () => {
           playlists: playlists.value,
           historyList: historyList.value,
           favoriteList: favoriteList.value,
+          smartPlaylists: smartPlaylists.value,
+          folders: folders.value,
         };
         persist.save(STORAGE_KEY, state);
         // 广播到其他标签页
@@ -75,7 +113,7 @@ export const usePlaylistStore = defineStore("playlist", () => {
 
   // 监听状态变化，自动保存并同步到其他标签页
   watch(
-    [playlists, historyList, favoriteList],
+    [playlists, historyList, favoriteList, smartPlaylists, folders],
     () => {
       // 如果正在同步，跳过广播
       if (isSyncing) return;
@@ -95,6 +133,8 @@ export const usePlaylistStore = defineStore("playlist", () => {
     playlists.value = data.playlists || [];
     historyList.value = data.historyList || [];
     favoriteList.value = data.favoriteList || [];
+    smartPlaylists.value = data.smartPlaylists || [];
+    folders.value = data.folders || [];
 
     // 使用 nextTick 确保在下一个 tick 重置同步标志
     nextTick(() => {
@@ -279,11 +319,240 @@ export const usePlaylistStore = defineStore("playlist", () => {
     return playlists.value.find((p) => p.id === playlistId);
   };
 
+  // ========== 歌单文件夹 ==========
+  // 不存在的文件夹 ID 视为顶层（如导入的数据不完整）
+  const resolveFolderId = (folderId: string | null | undefined) =>
+    folderId && folders.value.some((f) => f.id === folderId) ? folderId : null;
+
+  // 获取文件夹（传 null 为顶层）中的直接子文件夹和歌单，按保存的顺序排列
+  const getFolderChildren = (folderId: string | null): PlaylistFolderChildren => ({
+    folders: folders.value.filter((f) => f.id !== folderId && resolveFolderId(f.parentId) === folderId),
+    playlists: playlists.value.filter((p) => resolveFolderId(p.folderId) === folderId),
+  });
+
+  // 判断 folderId 是否是 ancestorId 本身或其下级文件夹
+  const isFolderInside = (folderId: string | null, ancestorId: string) => {
+    const visited = new Set<string>();
+    let current = resolveFolderId(folderId);
+    while (current && !visited.has(current)) {
+      if (current === ancestorId) return true;
+      visited.add(current);
+      current = resolveFolderId(folders.value.find((f) => f.id === current)?.parentId);
+    }
+    return false;
+  };
+
+  // 把数组中的一项移动到 beforeId 之前；没有 beforeId 时放到同级最后一项之后
+  const moveInList = <T extends { id: string }>(
+    list: T[],
+    item: T,
+    beforeId: string | undefined,
+    isSibling: (other: T) => boolean
+  ) => {
+    list.splice(list.indexOf(item), 1);
+    let index = beforeId ? list.findIndex((other) => other.id === beforeId) : -1;
+    if (index === -1) {
+      const lastSibling = list.reduce((last, other, i) => (isSibling(other) ? i : last), -1);
+      index = lastSibling === -1 ? list.length : lastSibling + 1;
+    }
+    list.splice(index, 0, item);
+  };
+
+  // 创建文件夹
+  const createFolder = (name: string, parentId: string | null = null) => {
+    const newFolder: PlaylistFolder = {
+      id: `folder-${Date.now()}`,
+      name,
+      parentId: resolveFolderId(parentId),
+      collapsed: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    folders.value.push(newFolder);
+    // 在折叠的文件夹中新建时展开它
+    if (newFolder.parentId) toggleFolderCollapsed(newFolder.parentId, false);
+    return newFolder;
+  };
+
+  // 重命名文件夹
+  const renameFolder = (folderId: string, name: string) => {
+    const folder = folders.value.find((f) => f.id === folderId);
+    if (folder) {
+      folder.name = name;
+      folder.updatedAt = Date.now();
+      return true;
+    }
+    return false;
+  };
+
+  // 折叠/展开文件夹（不传 collapsed 时切换）
+  const toggleFolderCollapsed = (folderId: string, collapsed?: boolean) => {
+    const folder = folders.value.find((f) => f.id === folderId);
+    if (folder) {
+      folder.collapsed = collapsed ?? !folder.collapsed;
+    }
+  };
+
+  // 删除文件夹（其中的歌单和子文件夹移到上一级，不会被删除）
+  const deleteFolder = (folderId: string) => {
+    const index = folders.value.findIndex((f) => f.id === folderId);
+    if (index === -1) return false;
+
+    const parentId = resolveFolderId(folders.value[index].parentId);
+    const { folders: childFolders, playlists: childPlaylists } = getFolderChildren(folderId);
+    childFolders.forEach((f) => (f.parentId = parentId));
+    childPlaylists.forEach((p) => (p.folderId = parentId));
+    folders.value.splice(index, 1);
+    return true;
+  };
+
+  // 把歌单移动到文件夹中（放到 beforePlaylistId 之前，不传时放到最后）
+  const movePlaylist = (
+    playlistId: string,
+    folderId: string | null,
+    beforePlaylistId?: string
+  ) => {
+    const playlist = playlists.value.find((p) => p.id === playlistId);
+    if (!playlist || playlistId === beforePlaylistId) return false;
+
+    const targetId = resolveFolderId(folderId);
+    playlist.folderId = targetId;
+    moveInList(playlists.value, playlist, beforePlaylistId, (p) => resolveFolderId(p.folderId) === targetId);
+    return true;
+  };
+
+  // 把文件夹移动到另一个文件夹中（不能移到自身或下级文件夹中）
+  const moveFolder = (folderId: string, parentId: string | null, beforeFolderId?: string) => {
+    const folder = folders.value.find((f) => f.id === folderId);
+    if (!folder || folderId === beforeFolderId) return false;
+
+    const targetId = resolveFolderId(parentId);
+    if (isFolderInside(targetId, folderId)) return false;
+
+    folder.parentId = targetId;
+    folder.updatedAt = Date.now();
+    moveInList(folders.value, folder, beforeFolderId, (f) => resolveFolderId(f.parentId) === targetId);
+    return true;
+  };
+
+  // 文件夹中所有歌单的歌曲（按侧边栏中的顺序，先子文件夹后歌单）
+  const getFolderSongs = (folderId: string) => {
+    const songs: Song[] = [];
+    const visited = new Set<string>();
+    const collect = (id: string) => {
+      if (visited.has(id)) return;
+      visited.add(id);
+      const children = getFolderChildren(id);
+      children.folders.forEach((f) => collect(f.id));
+      children.playlists.forEach((p) => songs.push(...p.songs));
+    };
+    collect(folderId);
+    return songs;
+  };
+
+  // 获取文件夹
+  const getFolder = (folderId: string) => {
+    return folders.value.find((f) => f.id === folderId);
+  };
+
+  // ========== 智能歌单 ==========
+  const localMusicStore = useLocalMusicStore();
+  const playStatsStore = usePlayStatsStore();
+
+  // 规则计算用的歌曲索引，歌单、收藏、试听列表、本地音乐或播放次数变化时重新生成
+  const smartPlaylistIndex = computed(() =>
+    createSmartPlaylistIndex({
+      favoriteList: favoriteList.value,
+      historyList: historyList.value,
+      localFiles: localMusicStore.localFiles,
+      playlists: playlists.value,
+      playCounts: playStatsStore.playCounts,
+    })
+  );
+
+  // 各智能歌单当前的歌曲（随索引和规则自动重新计算）
+  const smartPlaylistSongs = computed(() => {
+    const result: Record<string, Song[]> = {};
+    if (smartPlaylists.value.length === 0) return result;
+
+    for (const playlist of smartPlaylists.value) {
+      result[playlist.id] = evaluateSmartPlaylist(playlist, smartPlaylistIndex.value);
+    }
+    return result;
+  });
+
+  // 有规则用到播放次数时才读取听歌统计
+  watch(
+    () => smartPlaylists.value.some(usesPlayCount),
+    (needed) => {
+      if (!needed) return;
+      playStatsStore.loadPlayCounts().catch((error) => {
+        console.error("读取播放次数失败:", error);
+      });
+    },
+    { immediate: true }
+  );
+
+  // 创建智能歌单
+  const createSmartPlaylist = (name: string, match: SmartRuleMatch, rules: SmartRule[]) => {
+    const newPlaylist: SmartPlaylist = {
+      id: `smart-${Date.now()}`,
+      name,
+      match,
+      rules,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    smartPlaylists.value.push(newPlaylist);
+    return newPlaylist;
+  };
+
+  // 更新智能歌单的名称或规则
+  const updateSmartPlaylist = (
+    playlistId: string,
+    updates: Partial<Pick<SmartPlaylist, "name" | "match" | "rules">>
+  ) => {
+    const playlist = smartPlaylists.value.find((p) => p.id === playlistId);
+    if (playlist) {
+      Object.assign(playlist, updates);
+      playlist.updatedAt = Date.now();
+      return true;
+    }
+    return false;
+  };
+
+  // 删除智能歌单
+  const deleteSmartPlaylist = (playlistId: string) => {
+    const index = smartPlaylists.value.findIndex((p) => p.id === playlistId);
+    if (index !== -1) {
+      smartPlaylists.value.splice(index, 1);
+      return true;
+    }
+    return false;
+  };
+
+  // 获取智能歌单
+  const getSmartPlaylist = (playlistId: string) => {
+    return smartPlaylists.value.find((p) => p.id === playlistId);
+  };
+
+  // 获取智能歌单当前的歌曲
+  const getSmartPlaylistSongs = (playlistId: string) => {
+    return smartPlaylistSongs.value[playlistId] || [];
+  };
+
+  // 按未保存的规则预览匹配的歌曲（编辑规则时使用）
+  const previewSmartPlaylist = (match: SmartRuleMatch, rules: SmartRule[]) => {
+    return evaluateSmartPlaylist({ match, rules }, smartPlaylistIndex.value);
+  };
+
   return {
     // state
     playlists,
     historyList,
     favoriteList,
+    smartPlaylists,
+    folders,
     // actions - 试听列表
     addToHistory,
     clearHistory,
@@ -302,5 +571,23 @@ export const usePlaylistStore = defineStore("playlist", () => {
     removeSongFromPlaylist,
     reorderSongsInPlaylist,
     getPlaylist,
+    // actions - 歌单文件夹
+    createFolder,
+    renameFolder,
+    toggleFolderCollapsed,
+    deleteFolder,
+    movePlaylist,
+    moveFolder,
+    getFolderChildren,
+    getFolderSongs,
+    getFolder,
+    isFolderInside,
+    // actions - 智能歌单
+    createSmartPlaylist,
+    updateSmartPlaylist,
+    deleteSmartPlaylist,
+    getSmartPlaylist,
+    getSmartPlaylistSongs,
+    previewSmartPlaylist,
   };
 });
@@ -1,6 +1,34 @@
 import { defineStore } from "pinia";
 import { ref, watch, nextTick } from "vue";
 import { tabSync } from "@/utils/sync";
+import {
+  FLAT_EQ_BANDS,
+  findBuiltinEqPreset,
+  type EqPreset,
+} from "@/config/equalizer";
+import {
+  DEFAULT_GLOBAL_SHORTCUTS,
+  type GlobalShortcutAction,
+  type GlobalShortcutBindings,
+} from "@/config/globalShortcuts";
+import {
+  DEFAULT_DESKTOP_LYRIC_FONT_SIZE,
+  DEFAULT_DESKTOP_LYRIC_TEXT_COLOR,
+  DEFAULT_DESKTOP_LYRIC_HIGHLIGHT_COLOR,
+} from "@/config/desktopLyric";
+import {
+  DEFAULT_REMOTE_CONTROL_PORT,
+  type RemoteControlStatus,
+} from "@/config/remoteControl";
+import {
+  DEFAULT_NOW_PLAYING_FILE_TEMPLATE,
+  type NowPlayingStatus,
+} from "@/config/nowPlaying";
+import {
+  DEFAULT_LASTFM_BASE_URL,
+  DEFAULT_LISTENBRAINZ_BASE_URL,
+  type ScrobbleStatus,
+} from "@/config/scrobble";
 
 // 音质类型
 export type QualityLevel =
@@ -24,6 +52,9 @@ export type FontFamily = string;
 // 卡拉OK样式模式
 export type KaraokeMode = "off" | "style1" | "style2";
 
+// 音量标准化模式（ReplayGain）
+export type ReplayGainMode = "off" | "track" | "album";
+
 const STORAGE_KEY = "music-player-settings";
 
 export const useSettingsStore = defineStore("settings", () => {
@@ -50,6 +81,42 @@ export const useSettingsStore = defineStore("settings", () => {
       globalLyricOffset: 0, // 全局歌词偏移量（秒）
       songLyricOffsets: {}, // 单曲歌词偏移量（Map）
       closeToTray: true, // 默认关闭到托盘
+      crossfadeDuration: 0, // 交叉淡入淡出时长（秒），0 表示关闭
+      gaplessPlayback: true, // 无缝播放（预加载下一首）
+      eqEnabled: false, // 均衡器默认关闭
+      eqPreamp: 0, // 均衡器前级增益（dB）
+      eqBands: [...FLAT_EQ_BANDS], // 均衡器各频段增益（dB）
+      eqPresetId: "flat", // 当前均衡器预设，手动调节后为 "custom"
+      eqUserPresets: [], // 用户保存的均衡器预设
+      replayGainMode: "off", // 音量标准化默认关闭
+      preservePitch: true, // 变速时保持音调
+      globalShortcutsEnabled: true, // 全局快捷键（仅 Electron）
+      globalShortcuts: { ...DEFAULT_GLOBAL_SHORTCUTS }, // 全局快捷键绑定
+      desktopLyricEnabled: false, // 桌面歌词（仅 Electron）
+      desktopLyricLocked: false, // 锁定后鼠标穿透
+      desktopLyricFontSize: DEFAULT_DESKTOP_LYRIC_FONT_SIZE,
+      desktopLyricTextColor: DEFAULT_DESKTOP_LYRIC_TEXT_COLOR,
+      desktopLyricHighlightColor: DEFAULT_DESKTOP_LYRIC_HIGHLIGHT_COLOR,
+      remoteControlEnabled: false, // 局域网远程控制（仅 Electron）
+      remoteControlPort: DEFAULT_REMOTE_CONTROL_PORT,
+      remoteControlToken: "", // 开启时自动生成
+      remoteControlAllowLan: false, // 默认只允许本机访问
+      nowPlayingDiscordEnabled: false, // 正在播放分享（仅 Electron）
+      nowPlayingDiscordClientId: "",
+      nowPlayingFileEnabled: false,
+      nowPlayingFilePath: "",
+      nowPlayingFileTemplate: DEFAULT_NOW_PLAYING_FILE_TEMPLATE,
+      nowPlayingWebhookEnabled: false,
+      nowPlayingWebhookUrl: "",
+      scrobbleLastfmEnabled: false, // 听歌记录同步（仅 Electron）
+      scrobbleLastfmBaseUrl: DEFAULT_LASTFM_BASE_URL,
+      scrobbleLastfmApiKey: "",
+      scrobbleLastfmApiSecret: "",
+      scrobbleLastfmSessionKey: "", // 登录后获得，不保存密码
+      scrobbleLastfmUsername: "",
+      scrobbleListenBrainzEnabled: false,
+      scrobbleListenBrainzBaseUrl: DEFAULT_LISTENBRAINZ_BASE_URL,
+      scrobbleListenBrainzToken: "",
     };
   };
 
@@ -106,6 +173,158 @@ export const useSettingsStore = defineStore("settings", () => {
     savedSettings.closeToTray !== false // 默认为 true
   );
 
+  // 切歌时的交叉淡入淡出时长（秒），0 表示关闭
+  const crossfadeDuration = ref<number>(savedSettings.crossfadeDuration ?? 0);
+
+  // 无缝播放：提前预加载下一首，同一专辑的连续曲目不做淡入淡出
+  const gaplessPlayback = ref<boolean>(
+    savedSettings.gaplessPlayback !== false // 默认为 true
+  );
+
+  // 均衡器开关（开启后音频经过 Web Audio 处理链）
+  const eqEnabled = ref<boolean>(savedSettings.eqEnabled === true);
+
+  // 均衡器前级增益（dB）
+  const eqPreamp = ref<number>(savedSettings.eqPreamp ?? 0);
+
+  // 均衡器各频段增益（dB）
+  const eqBands = ref<number[]>(
+    Array.isArray(savedSettings.eqBands) &&
+      savedSettings.eqBands.length === FLAT_EQ_BANDS.length
+      ? savedSettings.eqBands
+      : [...FLAT_EQ_BANDS]
+  );
+
+  // 当前均衡器预设 ID（内置预设 ID、用户预设 ID 或 "custom"）
+  const eqPresetId = ref<string>(savedSettings.eqPresetId || "flat");
+
+  // 用户保存的均衡器预设
+  const eqUserPresets = ref<EqPreset[]>(savedSettings.eqUserPresets || []);
+
+  // 音量标准化模式：按单曲或按专辑响度调整音量
+  const replayGainMode = ref<ReplayGainMode>(
+    savedSettings.replayGainMode || "off"
+  );
+
+  // 变速播放时保持音调（关闭后加速会升调，减速会降调）
+  const preservePitch = ref<boolean>(savedSettings.preservePitch !== false);
+
+  // 是否启用全局快捷键（仅 Electron）
+  const globalShortcutsEnabled = ref<boolean>(
+    savedSettings.globalShortcutsEnabled !== false
+  );
+
+  // 全局快捷键绑定（合并默认值，兼容新增的快捷键）
+  const globalShortcuts = ref<GlobalShortcutBindings>({
+    ...DEFAULT_GLOBAL_SHORTCUTS,
+    ...(savedSettings.globalShortcuts || {}),
+  });
+
+  // 注册失败（被其他程序占用或格式无效）的全局快捷键，不持久化
+  const globalShortcutConflicts = ref<GlobalShortcutAction[]>([]);
+
+  // 是否显示桌面歌词（仅 Electron）
+  const desktopLyricEnabled = ref<boolean>(!!savedSettings.desktopLyricEnabled);
+
+  // 锁定桌面歌词（锁定后鼠标穿透，不能拖动）
+  const desktopLyricLocked = ref<boolean>(!!savedSettings.desktopLyricLocked);
+
+  // 桌面歌词字号（像素）
+  const desktopLyricFontSize = ref<number>(
+    savedSettings.desktopLyricFontSize || DEFAULT_DESKTOP_LYRIC_FONT_SIZE
+  );
+
+  // 桌面歌词文字颜色
+  const desktopLyricTextColor = ref<string>(
+    savedSettings.desktopLyricTextColor || DEFAULT_DESKTOP_LYRIC_TEXT_COLOR
+  );
+
+  // 桌面歌词高亮颜色（当前行 / 已唱到的文字）
+  const desktopLyricHighlightColor = ref<string>(
+    savedSettings.desktopLyricHighlightColor ||
+      DEFAULT_DESKTOP_LYRIC_HIGHLIGHT_COLOR
+  );
+
+  // 是否开启局域网远程控制接口（仅 Electron）
+  const remoteControlEnabled = ref<boolean>(!!savedSettings.remoteControlEnabled);
+
+  // 远程控制接口端口
+  const remoteControlPort = ref<number>(
+    savedSettings.remoteControlPort || DEFAULT_REMOTE_CONTROL_PORT
+  );
+
+  // 远程控制访问令牌
+  const remoteControlToken = ref<string>(savedSettings.remoteControlToken || "");
+
+  // 允许局域网内其他设备访问（关闭时只允许本机访问）
+  const remoteControlAllowLan = ref<boolean>(!!savedSettings.remoteControlAllowLan);
+
+  // 远程控制服务运行状态（主进程返回），不持久化
+  const remoteControlStatus = ref<RemoteControlStatus>({ running: false, urls: [] });
+
+  // 在 Discord 中显示正在听的歌曲（仅 Electron）
+  const nowPlayingDiscordEnabled = ref<boolean>(!!savedSettings.nowPlayingDiscordEnabled);
+
+  // Discord 应用 ID（在 Discord 开发者后台创建应用，状态中显示应用名称）
+  const nowPlayingDiscordClientId = ref<string>(savedSettings.nowPlayingDiscordClientId || "");
+
+  // 把正在播放的歌曲写入文本文件（供 OBS 等直播软件读取）
+  const nowPlayingFileEnabled = ref<boolean>(!!savedSettings.nowPlayingFileEnabled);
+
+  // 文本文件路径
+  const nowPlayingFilePath = ref<string>(savedSettings.nowPlayingFilePath || "");
+
+  // 文本文件内容模板
+  const nowPlayingFileTemplate = ref<string>(
+    savedSettings.nowPlayingFileTemplate || DEFAULT_NOW_PLAYING_FILE_TEMPLATE
+  );
+
+  // 把正在播放的歌曲发送到自定义 Webhook
+  const nowPlayingWebhookEnabled = ref<boolean>(!!savedSettings.nowPlayingWebhookEnabled);
+
+  // Webhook 地址（POST JSON）
+  const nowPlayingWebhookUrl = ref<string>(savedSettings.nowPlayingWebhookUrl || "");
+
+  // 同步听歌记录到 Last.fm（仅 Electron）
+  const scrobbleLastfmEnabled = ref<boolean>(!!savedSettings.scrobbleLastfmEnabled);
+
+  // Last.fm 接口地址（可修改为本地模拟服务用于测试）
+  const scrobbleLastfmBaseUrl = ref<string>(
+    savedSettings.scrobbleLastfmBaseUrl || DEFAULT_LASTFM_BASE_URL
+  );
+
+  // Last.fm API 账号的 API Key 和 Secret
+  const scrobbleLastfmApiKey = ref<string>(savedSettings.scrobbleLastfmApiKey || "");
+  const scrobbleLastfmApiSecret = ref<string>(savedSettings.scrobbleLastfmApiSecret || "");
+
+  // Last.fm 会话密钥和用户名（登录后获得）
+  const scrobbleLastfmSessionKey = ref<string>(savedSettings.scrobbleLastfmSessionKey || "");
+  const scrobbleLastfmUsername = ref<string>(savedSettings.scrobbleLastfmUsername || "");
+
+  // 同步听歌记录到 ListenBrainz
+  const scrobbleListenBrainzEnabled = ref<boolean>(!!savedSettings.scrobbleListenBrainzEnabled);
+
+  // ListenBrainz 接口地址
+  const scrobbleListenBrainzBaseUrl = ref<string>(
+    savedSettings.scrobbleListenBrainzBaseUrl || DEFAULT_LISTENBRAINZ_BASE_URL
+  );
+
+  // ListenBrainz 用户令牌
+  const scrobbleListenBrainzToken = ref<string>(savedSettings.scrobbleListenBrainzToken || "");
+
+  // 各服务的状态和待提交记录数（主进程返回），不持久化
+  const scrobbleStatus = ref<ScrobbleStatus>({
+    lastfm: { enabled: false, queued: 0 },
+    listenbrainz: { enabled: false, queued: 0 },
+  });
+
+  // 各发布目标的状态（主进程返回），不持久化
+  const nowPlayingStatus = ref<NowPlayingStatus>({
+    discord: { enabled: false },
+    file: { enabled: false },
+    webhook: { enabled: false },
+  });
+
   // 标志：是否正在从其他标签页同步数据（避免循环广播）
   let isSyncing = false;
 
@@ -128,6 +347,42 @@ export const useSettingsStore = defineStore("settings", () => {
         globalLyricOffset: globalLyricOffset.value,
         songLyricOffsets: songLyricOffsets.value,
         closeToTray: closeToTray.value,
+        crossfadeDuration: crossfadeDuration.value,
+        gaplessPlayback: gaplessPlayback.value,
+        eqEnabled: eqEnabled.value,
+        eqPreamp: eqPreamp.value,
+        eqBands: eqBands.value,
+        eqPresetId: eqPresetId.value,
+        eqUserPresets: eqUserPresets.value,
+        replayGainMode: replayGainMode.value,
+        preservePitch: preservePitch.value,
+        globalShortcutsEnabled: globalShortcutsEnabled.value,
+        globalShortcuts: globalShortcuts.value,
+        desktopLyricEnabled: desktopLyricEnabled.value,
+        desktopLyricLocked: desktopLyricLocked.value,
+        desktopLyricFontSize: desktopLyricFontSize.value,
+        desktopLyricTextColor: desktopLyricTextColor.value,
+        desktopLyricHighlightColor: desktopLyricHighlightColor.value,
+        remoteControlEnabled: remoteControlEnabled.value,
+        remoteControlPort: remoteControlPort.value,
+        remoteControlToken: remoteControlToken.value,
+        remoteControlAllowLan: remoteControlAllowLan.value,
+        nowPlayingDiscordEnabled: nowPlayingDiscordEnabled.value,
+        nowPlayingDiscordClientId: nowPlayingDiscordClientId.value,
+        nowPlayingFileEnabled: nowPlayingFileEnabled.value,
+        nowPlayingFilePath: nowPlayingFilePath.value,
+        nowPlayingFileTemplate: nowPlayingFileTemplate.value,
+        nowPlayingWebhookEnabled: nowPlayingWebhookEnabled.value,
+        nowPlayingWebhookUrl: nowPlayingWebhookUrl.value,
+        scrobbleLastfmEnabled: scrobbleLastfmEnabled.value,
+        scrobbleLastfmBaseUrl: scrobbleLastfmBaseUrl.value,
+        scrobbleLastfmApiKey: scrobbleLastfmApiKey.value,
+        scrobbleLastfmApiSecret: scrobbleLastfmApiSecret.value,
+        scrobbleLastfmSessionKey: scrobbleLastfmSessionKey.value,
+        scrobbleLastfmUsername: scrobbleLastfmUsername.value,
+        scrobbleListenBrainzEnabled: scrobbleListenBrainzEnabled.value,
+        scrobbleListenBrainzBaseUrl: scrobbleListenBrainzBaseUrl.value,
+        scrobbleListenBrainzToken: scrobbleListenBrainzToken.value,
       };
       localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
 
@@ -153,6 +408,42 @@ export const useSettingsStore = defineStore("settings", () => {
       globalLyricOffset,
       songLyricOffsets,
       closeToTray,
+      crossfadeDuration,
+      gaplessPlayback,
+      eqEnabled,
+      eqPreamp,
+      eqBands,
+      eqPresetId,
+      eqUserPresets,
+      replayGainMode,
+      preservePitch,
+      globalShortcutsEnabled,
+      globalShortcuts,
+      desktopLyricEnabled,
+      desktopLyricLocked,
+      desktopLyricFontSize,
+      desktopLyricTextColor,
+      desktopLyricHighlightColor,
+      remoteControlEnabled,
+      remoteControlPort,
+      remoteControlToken,
+      remoteControlAllowLan,
+      nowPlayingDiscordEnabled,
+      nowPlayingDiscordClientId,
+      nowPlayingFileEnabled,
+      nowPlayingFilePath,
+      nowPlayingFileTemplate,
+      nowPlayingWebhookEnabled,
+      nowPlayingWebhookUrl,
+      scrobbleLastfmEnabled,
+      scrobbleLastfmBaseUrl,
+      scrobbleLastfmApiKey,
+      scrobbleLastfmApiSecret,
+      scrobbleLastfmSessionKey,
+      scrobbleLastfmUsername,
+      scrobbleListenBrainzEnabled,
+      scrobbleListenBrainzBaseUrl,
+      scrobbleListenBrainzToken,
     ],
     saveSettings,
     { deep: true }
@@ -176,6 +467,51 @@ export const useSettingsStore = defineStore("settings", () => {
     globalLyricOffset.value = data.globalLyricOffset || 0;
     songLyricOffsets.value = data.songLyricOffsets || {};
     closeToTray.value = data.closeToTray !== false;
+    crossfadeDuration.value = data.crossfadeDuration ?? 0;
+    gaplessPlayback.value = data.gaplessPlayback !== false;
+    eqEnabled.value = data.eqEnabled === true;
+    eqPreamp.value = data.eqPreamp ?? 0;
+    eqBands.value = data.eqBands || [...FLAT_EQ_BANDS];
+    eqPresetId.value = data.eqPresetId || "flat";
+    eqUserPresets.value = data.eqUserPresets || [];
+    replayGainMode.value = data.replayGainMode || "off";
+    preservePitch.value = data.preservePitch !== false;
+    globalShortcutsEnabled.value = data.globalShortcutsEnabled !== false;
+    globalShortcuts.value = {
+      ...DEFAULT_GLOBAL_SHORTCUTS,
+      ...(data.globalShortcuts || {}),
+    };
+    desktopLyricEnabled.value = !!data.desktopLyricEnabled;
+    desktopLyricLocked.value = !!data.desktopLyricLocked;
+    desktopLyricFontSize.value =
+      data.desktopLyricFontSize || DEFAULT_DESKTOP_LYRIC_FONT_SIZE;
+    desktopLyricTextColor.value =
+      data.desktopLyricTextColor || DEFAULT_DESKTOP_LYRIC_TEXT_COLOR;
+    desktopLyricHighlightColor.value =
+      data.desktopLyricHighlightColor || DEFAULT_DESKTOP_LYRIC_HIGHLIGHT_COLOR;
+    remoteControlEnabled.value = !!data.remoteControlEnabled;
+    remoteControlPort.value =
+      data.remoteControlPort || DEFAULT_REMOTE_CONTROL_PORT;
+    remoteControlToken.value = data.remoteControlToken || "";
+    remoteControlAllowLan.value = !!data.remoteControlAllowLan;
+    nowPlayingDiscordEnabled.value = !!data.nowPlayingDiscordEnabled;
+    nowPlayingDiscordClientId.value = data.nowPlayingDiscordClientId || "";
+    nowPlayingFileEnabled.value = !!data.nowPlayingFileEnabled;
+    nowPlayingFilePath.value = data.nowPlayingFilePath || "";
+    nowPlayingFileTemplate.value =
+      data.nowPlayingFileTemplate || DEFAULT_NOW_PLAYING_FILE_TEMPLATE;
+    nowPlayingWebhookEnabled.value = !!data.nowPlayingWebhookEnabled;
+    nowPlayingWebhookUrl.value = data.nowPlayingWebhookUrl || "";
+    scrobbleLastfmEnabled.value = !!data.scrobbleLastfmEnabled;
+    scrobbleLastfmBaseUrl.value = data.scrobbleLastfmBaseUrl || DEFAULT_LASTFM_BASE_URL;
+    scrobbleLastfmApiKey.value = data.scrobbleLastfmApiKey || "";
+    scrobbleLastfmApiSecret.value = data.scrobbleLastfmApiSecret || "";
+    scrobbleLastfmSessionKey.value = data.scrobbleLastfmSessionKey || "";
+    scrobbleLastfmUsername.value = data.scrobbleLastfmUsername || "";
+    scrobbleListenBrainzEnabled.value = !!data.scrobbleListenBrainzEnabled;
+    scrobbleListenBrainzBaseUrl.value =
+      data.scrobbleListenBrainzBaseUrl || DEFAULT_LISTENBRAINZ_BASE_URL;
+    scrobbleListenBrainzToken.value = data.scrobbleListenBrainzToken || "";
 
     // 使用 nextTick 确保在下一个 tick 重置同步标志
     nextTick(() => {
@@ -337,6 +673,259 @@ export const useSettingsStore = defineStore("settings", () => {
     }
   };
 
+  // ========== 均衡器 ==========
+  // 应用预设（内置或用户保存的）
+  const applyEqPreset = (presetId: string) => {
+    const preset =
+      findBuiltinEqPreset(presetId) ||
+      eqUserPresets.value.find((p) => p.id === presetId);
+    if (!preset) return false;
+    eqPreamp.value = preset.preamp;
+    eqBands.value = [...preset.bands];
+    eqPresetId.value = preset.id;
+    return true;
+  };
+
+  // 调节单个频段，预设变为自定义
+  const setEqBand = (index: number, gain: number) => {
+    if (index < 0 || index >= eqBands.value.length) return;
+    eqBands.value[index] = gain;
+    eqPresetId.value = "custom";
+  };
+
+  // 调节前级增益，预设变为自定义
+  const setEqPreamp = (gain: number) => {
+    eqPreamp.value = gain;
+    eqPresetId.value = "custom";
+  };
+
+  // 把当前调节保存为用户预设
+  const saveEqPreset = (name: string) => {
+    const preset: EqPreset = {
+      id: `eq-${Date.now()}`,
+      name,
+      preamp: eqPreamp.value,
+      bands: [...eqBands.value],
+    };
+    eqUserPresets.value.push(preset);
+    eqPresetId.value = preset.id;
+    return preset;
+  };
+
+  // 删除用户预设
+  const deleteEqPreset = (presetId: string) => {
+    const index = eqUserPresets.value.findIndex((p) => p.id === presetId);
+    if (index === -1) return false;
+    eqUserPresets.value.splice(index, 1);
+    if (eqPresetId.value === presetId) {
+      eqPresetId.value = "custom";
+    }
+    return true;
+  };
+
+  // ========== 全局快捷键 ==========
+  // 把快捷键注册到主进程，并记录注册失败的快捷键
+  const registerGlobalShortcuts = async () => {
+    if (!window.electronAPI?.registerGlobalShortcuts) return;
+
+    try {
+      const bindings = globalShortcutsEnabled.value
+        ? { ...globalShortcuts.value }
+        : {};
+      const result = await window.electronAPI.registerGlobalShortcuts(bindings);
+      globalShortcutConflicts.value = (result?.failed ||
+        []) as GlobalShortcutAction[];
+    } catch (error) {
+      console.error("注册全局快捷键失败:", error);
+    }
+  };
+
+  // 修改快捷键绑定（空字符串表示清除），与其他快捷键重复时返回重复的 action
+  const setGlobalShortcut = (
+    action: GlobalShortcutAction,
+    accelerator: string
+  ): GlobalShortcutAction | null => {
+    if (accelerator) {
+      const duplicate = (
+        Object.keys(globalShortcuts.value) as GlobalShortcutAction[]
+      ).find(
+        (key) => key !== action && globalShortcuts.value[key] === accelerator
+      );
+      if (duplicate) return duplicate;
+    }
+    globalShortcuts.value[action] = accelerator;
+    return null;
+  };
+
+  // 恢复默认快捷键
+  const resetGlobalShortcuts = () => {
+    globalShortcuts.value = { ...DEFAULT_GLOBAL_SHORTCUTS };
+  };
+
+  // 快捷键变化后重新注册（启动时立即注册一次）
+  watch([globalShortcutsEnabled, globalShortcuts], registerGlobalShortcuts, {
+    deep: true,
+    immediate: true,
+  });
+
+  // ========== 局域网远程控制 ==========
+  // 生成新的访问令牌（旧令牌立即失效）
+  const regenerateRemoteControlToken = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    remoteControlToken.value = Array.from(bytes, (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+  };
+
+  // 把配置发送给主进程启动/停止服务，并记录运行状态
+  const applyRemoteControl = async () => {
+    if (!window.electronAPI?.setRemoteControl) return;
+
+    // 第一次开启时生成令牌（令牌变化会再次触发）
+    if (remoteControlEnabled.value && !remoteControlToken.value) {
+      regenerateRemoteControlToken();
+      return;
+    }
+
+    try {
+      remoteControlStatus.value = await window.electronAPI.setRemoteControl({
+        enabled: remoteControlEnabled.value,
+        port: remoteControlPort.value,
+        token: remoteControlToken.value,
+        allowLan: remoteControlAllowLan.value,
+      });
+    } catch (error) {
+      console.error("设置远程控制失败:", error);
+    }
+  };
+
+  // 配置变化后重新应用（启动时立即应用一次）
+  watch(
+    [
+      remoteControlEnabled,
+      remoteControlPort,
+      remoteControlToken,
+      remoteControlAllowLan,
+    ],
+    applyRemoteControl,
+    { immediate: true }
+  );
+
+  // ========== 正在播放分享 ==========
+  // 把配置发送给主进程，并记录各发布目标的状态
+  const applyNowPlaying = async () => {
+    if (!window.electronAPI?.setNowPlayingConfig) return;
+
+    try {
+      nowPlayingStatus.value = await window.electronAPI.setNowPlayingConfig({
+        discord: {
+          enabled: nowPlayingDiscordEnabled.value,
+          clientId: nowPlayingDiscordClientId.value,
+        },
+        file: {
+          enabled: nowPlayingFileEnabled.value,
+          path: nowPlayingFilePath.value,
+          template: nowPlayingFileTemplate.value,
+        },
+        webhook: {
+          enabled: nowPlayingWebhookEnabled.value,
+          url: nowPlayingWebhookUrl.value,
+        },
+      });
+    } catch (error) {
+      console.error("设置正在播放分享失败:", error);
+    }
+  };
+
+  // 配置变化后重新应用（启动时立即应用一次）
+  watch(
+    [
+      nowPlayingDiscordEnabled,
+      nowPlayingDiscordClientId,
+      nowPlayingFileEnabled,
+      nowPlayingFilePath,
+      nowPlayingFileTemplate,
+      nowPlayingWebhookEnabled,
+      nowPlayingWebhookUrl,
+    ],
+    applyNowPlaying,
+    { immediate: true }
+  );
+
+  // 发布失败等状态变化由主进程通知
+  window.electronAPI?.onNowPlayingStatus?.((status) => {
+    nowPlayingStatus.value = status;
+  });
+
+  // ========== 听歌记录同步 ==========
+  // 把配置发送给主进程，并记录各服务的状态
+  const applyScrobble = async () => {
+    if (!window.electronAPI?.setScrobbleConfig) return;
+
+    try {
+      scrobbleStatus.value = await window.electronAPI.setScrobbleConfig({
+        lastfm: {
+          enabled: scrobbleLastfmEnabled.value,
+          baseUrl: scrobbleLastfmBaseUrl.value,
+          apiKey: scrobbleLastfmApiKey.value,
+          apiSecret: scrobbleLastfmApiSecret.value,
+          sessionKey: scrobbleLastfmSessionKey.value,
+        },
+        listenbrainz: {
+          enabled: scrobbleListenBrainzEnabled.value,
+          baseUrl: scrobbleListenBrainzBaseUrl.value,
+          token: scrobbleListenBrainzToken.value,
+        },
+      });
+    } catch (error) {
+      console.error("设置听歌记录同步失败:", error);
+    }
+  };
+
+  // 登录 Last.fm（需要先填写 API Key 和 Secret），失败时抛出异常
+  const loginLastfm = async (username: string, password: string) => {
+    if (!window.electronAPI?.loginLastfm) return;
+    const result = await window.electronAPI.loginLastfm({
+      baseUrl: scrobbleLastfmBaseUrl.value,
+      apiKey: scrobbleLastfmApiKey.value,
+      apiSecret: scrobbleLastfmApiSecret.value,
+      username,
+      password,
+    });
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+    scrobbleLastfmUsername.value = result.data.username;
+    scrobbleLastfmSessionKey.value = result.data.sessionKey;
+  };
+
+  // 退出 Last.fm 登录
+  const logoutLastfm = () => {
+    scrobbleLastfmUsername.value = "";
+    scrobbleLastfmSessionKey.value = "";
+  };
+
+  // 配置变化后重新应用（启动时立即应用一次）
+  watch(
+    [
+      scrobbleLastfmEnabled,
+      scrobbleLastfmBaseUrl,
+      scrobbleLastfmApiKey,
+      scrobbleLastfmApiSecret,
+      scrobbleLastfmSessionKey,
+      scrobbleListenBrainzEnabled,
+      scrobbleListenBrainzBaseUrl,
+      scrobbleListenBrainzToken,
+    ],
+    applyScrobble,
+    { immediate: true }
+  );
+
+  // 队列长度、提交失败等状态变化由主进程通知
+  window.electronAPI?.onScrobbleStatus?.((status) => {
+    scrobbleStatus.value = status;
+  });
+
   return {
     quality,
     searchType,
@@ -350,6 +939,46 @@ export const useSettingsStore = defineStore("settings", () => {
     globalLyricOffset,
     songLyricOffsets,
     closeToTray,
+    crossfadeDuration,
+    gaplessPlayback,
+    eqEnabled,
+    eqPreamp,
+    eqBands,
+    eqPresetId,
+    eqUserPresets,
+    replayGainMode,
+    preservePitch,
+    globalShortcutsEnabled,
+    globalShortcuts,
+    globalShortcutConflicts,
+    desktopLyricEnabled,
+    desktopLyricLocked,
+    desktopLyricFontSize,
+    desktopLyricTextColor,
+    desktopLyricHighlightColor,
+    remoteControlEnabled,
+    remoteControlPort,
+    remoteControlToken,
+    remoteControlAllowLan,
+    remoteControlStatus,
+    nowPlayingDiscordEnabled,
+    nowPlayingDiscordClientId,
+    nowPlayingFileEnabled,
+    nowPlayingFilePath,
+    nowPlayingFileTemplate,
+    nowPlayingWebhookEnabled,
+    nowPlayingWebhookUrl,
+    nowPlayingStatus,
+    scrobbleLastfmEnabled,
+    scrobbleLastfmBaseUrl,
+    scrobbleLastfmApiKey,
+    scrobbleLastfmApiSecret,
+    scrobbleLastfmSessionKey,
+    scrobbleLastfmUsername,
+    scrobbleListenBrainzEnabled,
+    scrobbleListenBrainzBaseUrl,
+    scrobbleListenBrainzToken,
+    scrobbleStatus,
     setQuality,
     setSearchType,
     setFontSize,
@@ -361,6 +990,17 @@ export const useSettingsStore = defineStore("settings", () => {
     getLyricOffset,
     setLyricOffset,
     setCloseToTray,
+    applyEqPreset,
+    setEqBand,
+    setEqPreamp,
+    saveEqPreset,
+    deleteEqPreset,
+    registerGlobalShortcuts,
+    setGlobalShortcut,
+    resetGlobalShortcuts,
+    regenerateRemoteControlToken,
+    loginLastfm,
+    logoutLastfm,
     isElectron,
     isProduction,
     isDevelopment,
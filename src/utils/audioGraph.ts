@@ -0,0 +1,155 @@
+/**
+ * Web Audio 音频处理链
+ * audio 元素 → 单曲增益（音量标准化）→ 前级增益 → 10 段均衡器 → 限幅器 → 输出
+ *
+ * 注意：createMediaElementSource 对同一个 audio 元素只能调用一次，
+ * 接入后该元素只能通过 AudioContext 输出，因此只在用户开启均衡器或音量标准化时才接入。
+ * 在线音源需要以 CORS 模式加载才能被处理，接入前由调用方设置 crossOrigin（见 PlayerBar）。
+ */
+
+import { EQ_FREQUENCIES } from "@/config/equalizer";
+
+// 中间频段的 Q 值（约 1 个倍频程）
+const PEAKING_Q = 1.4;
+
+class AudioGraph {
+  private context: AudioContext | null = null;
+  private preamp: GainNode | null = null;
+  private filters: BiquadFilterNode[] = [];
+  private limiter: DynamicsCompressorNode | null = null;
+  private sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+  // 每个 audio 元素独立的增益节点（交叉淡入淡出时两首歌的标准化增益不同）
+  private elementGains = new WeakMap<HTMLMediaElement, GainNode>();
+
+  /**
+   * 懒加载创建 AudioContext 和处理节点
+   */
+  private ensureContext(): AudioContext | null {
+    if (this.context) return this.context;
+    if (typeof AudioContext === "undefined") {
+      console.warn("当前环境不支持 Web Audio，均衡器不可用");
+      return null;
+    }
+
+    const context = new AudioContext();
+
+    this.preamp = context.createGain();
+
+    this.filters = EQ_FREQUENCIES.map((frequency, index) => {
+      const filter = context.createBiquadFilter();
+      if (index === 0) {
+        filter.type = "lowshelf";
+      } else if (index === EQ_FREQUENCIES.length - 1) {
+        filter.type = "highshelf";
+      } else {
+        filter.type = "peaking";
+        filter.Q.value = PEAKING_Q;
+      }
+      filter.frequency.value = frequency;
+      filter.gain.value = 0;
+      return filter;
+    });
+
+    // 限幅器：提升增益后防止削波
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.003;
+    this.limiter.release.value = 0.1;
+
+    // 串联：前级 → 各频段 → 限幅器 → 输出
+    let node: AudioNode = this.preamp;
+    this.filters.forEach((filter) => {
+      node.connect(filter);
+      node = filter;
+    });
+    node.connect(this.limiter);
+    this.limiter.connect(context.destination);
+
+    this.context = context;
+    return context;
+  }
+
+  /**
+   * 把 audio 元素接入处理链（重复调用无副作用）
+   */
+  attach(element: HTMLMediaElement): boolean {
+    if (this.sources.has(element)) return true;
+    const context = this.ensureContext();
+    if (!context || !this.preamp) return false;
+
+    try {
+      const source = context.createMediaElementSource(element);
+      const elementGain = context.createGain();
+      source.connect(elementGain);
+      elementGain.connect(this.preamp);
+      this.sources.set(element, source);
+      this.elementGains.set(element, elementGain);
+      return true;
+    } catch (error) {
+      console.error("接入均衡器失败:", error);
+      return false;
+    }
+  }
+
+  /**
+   * audio 元素是否已接入处理链
+   */
+  isAttached(element: HTMLMediaElement): boolean {
+    return this.sources.has(element);
+  }
+
+  /**
+   * 浏览器要求用户交互后才能启动 AudioContext，播放前调用
+   */
+  resume() {
+    if (this.context && this.context.state === "suspended") {
+      this.context.resume().catch((error) => {
+        console.warn("恢复 AudioContext 失败:", error);
+      });
+    }
+  }
+
+  /**
+   * 设置前级增益（dB）
+   */
+  setPreamp(db: number) {
+    if (!this.context || !this.preamp) return;
+    this.preamp.gain.setTargetAtTime(
+      Math.pow(10, db / 20),
+      this.context.currentTime,
+      0.02
+    );
+  }
+
+  /**
+   * 设置单个 audio 元素的增益（dB），用于音量标准化
+   */
+  setElementGain(element: HTMLMediaElement, db: number) {
+    const elementGain = this.elementGains.get(element);
+    if (!this.context || !elementGain) return;
+    elementGain.gain.setTargetAtTime(
+      Math.pow(10, db / 20),
+      this.context.currentTime,
+      0.02
+    );
+  }
+
+  /**
+   * 设置各频段增益（dB）
+   */
+  setBands(gains: number[]) {
+    if (!this.context) return;
+    this.filters.forEach((filter, index) => {
+      filter.gain.setTargetAtTime(
+        gains[index] ?? 0,
+        this.context!.currentTime,
+        0.02
+      );
+    });
+  }
+}
+
+// 导出单例
+export const audioGraph = new AudioGraph();
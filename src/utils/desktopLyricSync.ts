@@ -0,0 +1,158 @@
+/**
+ * 桌面歌词同步（仅 Electron，运行在主窗口）
+ * 根据设置打开/关闭桌面歌词窗口，解析当前歌曲的歌词，
+ * 并把歌词、播放进度和样式推送给桌面歌词窗口
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+import { useSettingsStore } from "@/stores/settings";
+import { parseLyric } from "@/utils/lyricParser";
+import type { DesktopLyricMessage } from "@/config/desktopLyric";
+
+/**
+ * 初始化桌面歌词同步，返回清理函数
+ */
+export const setupDesktopLyricSync = (
+  controls: PlayerControls
+): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.setDesktopLyric || !api.sendDesktopLyricState) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const settingsStore = useSettingsStore();
+
+  const send = (message: DesktopLyricMessage) => {
+    if (!settingsStore.desktopLyricEnabled) return;
+    api.sendDesktopLyricState(message);
+  };
+
+  // 歌词（歌曲详情加载后才有歌词，之前先显示歌名）
+  const pushLyrics = () => {
+    const song = playerStore.currentSong;
+    const detail =
+      song && playerStore.currentSongDetail?.id === song.id
+        ? playerStore.currentSongDetail
+        : null;
+    const lyrics = detail?.lyric
+      ? parseLyric(detail.lyric, detail.tlyric, detail.yrc, detail.yrc2).lyrics
+      : [];
+
+    send({
+      type: "lyrics",
+      songId: song?.id ?? null,
+      title: playerStore.currentSongInfo?.title || "",
+      artist: playerStore.currentSongInfo?.artist || "",
+      lyrics,
+    });
+  };
+
+  // 播放进度（桌面歌词窗口按发送时刻和播放速度推算两次推送之间的时间）
+  const pushPlayback = () => {
+    const songId = playerStore.currentSong?.id?.toString();
+    send({
+      type: "playback",
+      time: playerStore.currentTime + settingsStore.getLyricOffset(songId),
+      isPlaying: playerStore.isPlaying,
+      playbackRate: playerStore.currentPlaybackRate,
+      sentAt: Date.now(),
+    });
+  };
+
+  // 样式
+  const pushStyle = () => {
+    send({
+      type: "style",
+      style: {
+        fontSize: settingsStore.desktopLyricFontSize,
+        fontFamily: settingsStore.fontFamily,
+        textColor: settingsStore.desktopLyricTextColor,
+        highlightColor: settingsStore.desktopLyricHighlightColor,
+        karaokeMode: settingsStore.karaokeMode,
+        locked: settingsStore.desktopLyricLocked,
+      },
+    });
+  };
+
+  const pushAll = () => {
+    pushStyle();
+    pushLyrics();
+    pushPlayback();
+  };
+
+  const stopWatchers = [
+    // 打开/关闭、锁定/解锁窗口（窗口加载完成后会发送 ready，再推送完整状态）
+    watch(
+      () => [settingsStore.desktopLyricEnabled, settingsStore.desktopLyricLocked],
+      () => {
+        api
+          .setDesktopLyric({
+            enabled: settingsStore.desktopLyricEnabled,
+            locked: settingsStore.desktopLyricLocked,
+          })
+          .catch((error) => {
+            console.error("设置桌面歌词失败:", error);
+          });
+      },
+      { immediate: true }
+    ),
+    watch(
+      () => [playerStore.currentSong?.id, playerStore.currentSongDetail],
+      pushLyrics
+    ),
+    watch(
+      () => [
+        playerStore.currentTime,
+        playerStore.isPlaying,
+        playerStore.currentPlaybackRate,
+        settingsStore.getLyricOffset(playerStore.currentSong?.id?.toString()),
+      ],
+      pushPlayback
+    ),
+    watch(
+      () => [
+        settingsStore.desktopLyricFontSize,
+        settingsStore.fontFamily,
+        settingsStore.desktopLyricTextColor,
+        settingsStore.desktopLyricHighlightColor,
+        settingsStore.karaokeMode,
+        settingsStore.desktopLyricLocked,
+      ],
+      pushStyle
+    ),
+  ];
+
+  const stopListener = api.onDesktopLyricCommand((command) => {
+    switch (command) {
+      case "ready":
+        pushAll();
+        break;
+      case "lock":
+        settingsStore.desktopLyricLocked = true;
+        break;
+      case "unlock":
+        settingsStore.desktopLyricLocked = false;
+        break;
+      case "close":
+        settingsStore.desktopLyricEnabled = false;
+        break;
+      case "playPause":
+        controls.togglePlay();
+        break;
+      case "prev":
+        playerStore.playPrev();
+        break;
+      case "next":
+        playerStore.playNext();
+        break;
+    }
+  });
+
+  return () => {
+    stopWatchers.forEach((stop) => stop());
+    stopListener();
+  };
+};
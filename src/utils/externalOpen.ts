@@ -0,0 +1,131 @@
+/**
+ * 外部打开处理（仅 Electron，运行在主窗口）
+ * 导入并播放用“打开方式”打开的音频文件，播放 qfmusic://song/<id> 链接对应的歌曲
+ */
+
+import { watch } from "vue";
+import { ElMessage } from "element-plus";
+import MusicApi from "@/api/music";
+import type { Song } from "@/api/music";
+import { usePlayerStore } from "@/stores/player";
+import { useSettingsStore } from "@/stores/settings";
+import { useLocalMusicStore } from "@/stores/localMusic";
+import type { ExternalOpenFile, ExternalOpenRequest } from "@/config/externalOpen";
+
+/**
+ * 初始化外部打开处理，返回清理函数
+ */
+export const setupExternalOpenHandler = (): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.takeExternalOpenRequests || !api.onExternalOpen) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const settingsStore = useSettingsStore();
+  const localMusicStore = useLocalMusicStore();
+
+  // 本地音乐从存储恢复完成后再导入，避免重复导入已有文件
+  const waitForLocalMusic = () =>
+    new Promise<void>((resolve) => {
+      if (localMusicStore.isInitialized) {
+        resolve();
+        return;
+      }
+      const stop = watch(
+        () => localMusicStore.isInitialized,
+        (initialized) => {
+          if (!initialized) return;
+          stop();
+          resolve();
+        }
+      );
+    });
+
+  // 把播放列表中没有的歌曲加到末尾，并从第一首开始播放
+  const playAll = (songs: Song[]) => {
+    songs.forEach((song) => playerStore.addToPlaylist(song));
+    playerStore.playSong(songs[0]);
+  };
+
+  const openFiles = async (files: ExternalOpenFile[]) => {
+    await waitForLocalMusic();
+
+    const songs: Song[] = [];
+    for (const fileInfo of files) {
+      const blob = new Blob([fileInfo.buffer]);
+      const file = new File([blob], fileInfo.name, {
+        type: `audio/${fileInfo.name.split(".").pop()}`,
+      });
+      (file as any).path = fileInfo.path;
+
+      const [imported] = await localMusicStore.addLocalFiles([file]);
+      // 已经导入过的文件直接播放已有的记录
+      const song =
+        imported ||
+        localMusicStore.localFiles.find(
+          (item) => item.filePath === fileInfo.name && item.fileSize === fileInfo.size
+        );
+      if (song) {
+        songs.push(song);
+      }
+    }
+
+    if (songs.length === 0) {
+      ElMessage.error("无法打开所选文件");
+      return;
+    }
+    playAll(songs);
+    if (songs.length > 1) {
+      ElMessage.success(`已添加 ${songs.length} 首歌曲到播放列表`);
+    }
+  };
+
+  const openSong = async (id: string) => {
+    try {
+      const data = await MusicApi.getSong(id, settingsStore.quality);
+      if (!data.success || !data.data) {
+        ElMessage.error(data.message || "歌曲解析失败，请检查链接是否正确");
+        return;
+      }
+      const detail = data.data;
+      playAll([
+        {
+          id,
+          name: detail.name,
+          artists: detail.ar_name,
+          album: detail.al_name,
+          picUrl: detail.pic,
+          duration: 0,
+        },
+      ]);
+    } catch (error) {
+      console.error("打开歌曲链接失败:", error);
+      ElMessage.error("打开歌曲链接失败，请稍后重试");
+    }
+  };
+
+  // 逐个处理，避免同时导入时互相打断播放
+  let queue = Promise.resolve();
+  const handleRequest = (request: ExternalOpenRequest) => {
+    queue = queue
+      .then(() => (request.type === "files" ? openFiles(request.files) : openSong(request.id)))
+      .catch((error) => {
+        console.error("处理外部打开请求失败:", error);
+      });
+  };
+
+  const stopListener = api.onExternalOpen(handleRequest);
+
+  // 取走启动时（窗口加载完成前）收到的请求
+  api
+    .takeExternalOpenRequests()
+    .then((requests) => requests.forEach(handleRequest))
+    .catch((error) => {
+      console.error("获取外部打开请求失败:", error);
+    });
+
+  return () => {
+    stopListener();
+  };
+};
@@ -89,3 +89,17 @@ export const lazyLoadDirective = {
     observer.observe(el);
   },
 };
+
+/**
+ * Fisher–Yates 洗牌（返回新数组，不修改原数组）
+ * @param items 要打乱的数组
+ * @returns 打乱后的新数组
+ */
+export function shuffleArray<T>(items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,190 @@
+/**
+ * 响度分析工具（EBU R128 / ReplayGain 2.0）
+ * 解码音频后按 ITU-R BS.1770 计算积分响度，用于播放时的音量标准化
+ * 测量在 Worker 中分块进行（见 loudnessMeter.ts），主线程只负责解码
+ */
+
+import { toLoudness } from "./loudnessMeter";
+import { splitArtists } from "./playStats";
+import type {
+  LoudnessWorkerRequest,
+  LoudnessWorkerResponse,
+} from "./loudness.worker";
+
+// 响度分析结果
+export interface LoudnessInfo {
+  // 积分响度（LUFS）
+  integrated: number;
+  // 采样峰值（线性，1 为满幅）
+  peak: number;
+  // 时长（秒），用于计算专辑响度
+  duration: number;
+}
+
+// 保存在歌曲元数据中的响度信息（试听缓存和本地音乐共用）
+export interface StoredLoudness {
+  loudness?: LoudnessInfo; // 单曲响度
+  albumKey?: string; // 专辑标识，见 getAlbumKey
+  albumLoudness?: LoudnessInfo; // 专辑响度（合并该专辑所有已分析的缓存和本地歌曲）
+}
+
+// ReplayGain 2.0 参考响度
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+// 分析时统一重采样到的采样率
+const ANALYSIS_SAMPLE_RATE = 48000;
+// 解码后的双声道 PCM 每分钟约 23MB，超过上限的文件不分析
+const MAX_ANALYSIS_BYTES = 100 * 1024 * 1024;
+const MAX_ANALYSIS_SECONDS = 12 * 60;
+// 每次发送给 Worker 的数据长度（秒）
+const CHUNK_SECONDS = 10;
+
+// 同一时间只分析一个文件，避免多份解码数据同时占用内存
+let analysisQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 读取音频时长（只加载元数据），失败时返回 NaN
+ */
+const probeDuration = (blob: Blob): Promise<number> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const done = (duration: number) => {
+      clearTimeout(timer);
+      audio.removeAttribute("src");
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    const timer = setTimeout(() => done(NaN), 5000);
+
+    audio.preload = "metadata";
+    audio.addEventListener("loadedmetadata", () => done(audio.duration));
+    audio.addEventListener("error", () => done(NaN));
+    audio.src = url;
+  });
+
+/**
+ * 把解码结果分块发送给 Worker 测量，每块等待处理完再发下一块
+ */
+const measureInWorker = async (
+  buffer: AudioBuffer
+): Promise<LoudnessInfo | null> => {
+  const worker = new Worker(new URL("./loudness.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const send = (request: LoudnessWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<LoudnessWorkerResponse>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<LoudnessWorkerResponse>) =>
+        resolve(event.data);
+      worker.onerror = (event) => reject(new Error(event.message));
+      worker.postMessage(request, transfer);
+    });
+
+  try {
+    await send({
+      type: "start",
+      sampleRate: buffer.sampleRate,
+      channelCount: buffer.numberOfChannels,
+    });
+
+    const chunkSize = buffer.sampleRate * CHUNK_SECONDS;
+    for (let start = 0; start < buffer.length; start += chunkSize) {
+      const end = Math.min(start + chunkSize, buffer.length);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+        buffer.getChannelData(channel).slice(start, end)
+      );
+      await send(
+        { type: "chunk", channels },
+        channels.map((samples) => samples.buffer)
+      );
+    }
+
+    const response = await send({ type: "finish" });
+    return response.type === "result" ? response.loudness : null;
+  } finally {
+    worker.terminate();
+  }
+};
+
+const analyze = async (
+  blob: Blob,
+  duration?: number
+): Promise<LoudnessInfo | null> => {
+  if (blob.size > MAX_ANALYSIS_BYTES) return null;
+
+  const seconds = duration || (await probeDuration(blob));
+  if (!Number.isFinite(seconds) || seconds > MAX_ANALYSIS_SECONDS) return null;
+
+  const arrayBuffer = await blob.arrayBuffer();
+  // 仅用于解码，解码结果会重采样到该上下文的采样率
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(arrayBuffer);
+  return measureInWorker(buffer);
+};
+
+/**
+ * 分析音频文件的响度，失败、超出时长或大小上限时返回 null
+ * 调用方应在保存文件之后再分析，不要让保存流程等待分析结果
+ */
+export const analyzeLoudness = (
+  blob: Blob,
+  duration?: number
+): Promise<LoudnessInfo | null> => {
+  if (
+    typeof OfflineAudioContext === "undefined" ||
+    typeof Worker === "undefined"
+  ) {
+    return Promise.resolve(null);
+  }
+
+  const task = analysisQueue.then(() =>
+    analyze(blob, duration).catch((error) => {
+      console.warn("响度分析失败:", error);
+      return null;
+    })
+  );
+  analysisQueue = task;
+  return task;
+};
+
+/**
+ * 专辑标识：接口不提供专辑 ID，用规范化的专辑名加第一位歌手区分同名专辑
+ * 没有专辑名时返回 null，专辑模式下按单曲增益处理
+ */
+export const getAlbumKey = (album: string, artists: string): string | null => {
+  const name = album.trim().toLowerCase();
+  if (!name) return null;
+  const artist = splitArtists(artists)[0]?.toLowerCase() ?? "";
+  return JSON.stringify([name, artist]);
+};
+
+/**
+ * 根据响度计算增益（dB），并限制增益避免峰值削波
+ */
+export const computeReplayGain = (info: LoudnessInfo): number => {
+  const gain = REPLAYGAIN_REFERENCE_LUFS - info.integrated;
+  if (info.peak <= 0) return gain;
+  const maxGain = -20 * Math.log10(info.peak);
+  return Math.min(gain, maxGain);
+};
+
+/**
+ * 合并多首歌曲的响度，得到专辑响度（按时长加权的能量平均）
+ */
+export const combineLoudness = (items: LoudnessInfo[]): LoudnessInfo | null => {
+  const valid = items.filter((item) => item.duration > 0);
+  if (valid.length === 0) return null;
+
+  const totalDuration = valid.reduce((sum, item) => sum + item.duration, 0);
+  const energy = valid.reduce(
+    (sum, item) =>
+      sum + item.duration * Math.pow(10, (item.integrated + 0.691) / 10),
+    0
+  );
+
+  return {
+    integrated: toLoudness(energy / totalDuration),
+    peak: Math.max(...valid.map((item) => item.peak)),
+    duration: totalDuration,
+  };
+};
@@ -0,0 +1,40 @@
+/**
+ * 响度测量 Worker
+ * 主线程解码后按块发送 PCM 数据，每块处理完回复 ack，结束时回复测量结果
+ */
+
+import { createLoudnessMeter } from "./loudnessMeter";
+import type { LoudnessMeter } from "./loudnessMeter";
+import type { LoudnessInfo } from "./loudness";
+
+export type LoudnessWorkerRequest =
+  | { type: "start"; sampleRate: number; channelCount: number }
+  | { type: "chunk"; channels: Float32Array[] }
+  | { type: "finish" };
+
+export type LoudnessWorkerResponse =
+  | { type: "ack" }
+  | { type: "result"; loudness: LoudnessInfo | null };
+
+let meter: LoudnessMeter | null = null;
+
+const reply = (response: LoudnessWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<LoudnessWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "start":
+      meter = createLoudnessMeter(request.sampleRate, request.channelCount);
+      reply({ type: "ack" });
+      break;
+    case "chunk":
+      meter?.push(request.channels);
+      reply({ type: "ack" });
+      break;
+    case "finish":
+      reply({ type: "result", loudness: meter?.finish() ?? null });
+      meter = null;
+      break;
+  }
+};
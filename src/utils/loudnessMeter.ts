@@ -0,0 +1,171 @@
+/**
+ * 流式响度测量（ITU-R BS.1770）
+ * 按块接收解码后的 PCM 数据，滤波器状态在块之间保留，在 Worker 中运行
+ */
+
+import type { LoudnessInfo } from "./loudness";
+
+// 门限块长度 400ms，由 4 个 100ms 分段组成（75% 重叠）
+const SEGMENT_SECONDS = 0.1;
+const SEGMENTS_PER_BLOCK = 4;
+// 绝对门限和相对门限
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export interface LoudnessMeter {
+  // 输入一块数据，每个声道一个数组，长度相同
+  push: (channels: Float32Array[]) => void;
+  // 结束测量，音频过短或过静时返回 null
+  finish: () => LoudnessInfo | null;
+}
+
+/**
+ * 按采样率计算 K 加权滤波器系数（高搁架预滤波 + RLB 高通）
+ * 系数推导与 libebur128 一致
+ */
+const createKWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  // 第一级：高搁架滤波，模拟头部声学效应
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan((Math.PI * f0) / sampleRate);
+  const Vh = Math.pow(10, gain / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // 第二级：RLB 高通滤波
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highpass];
+};
+
+// 均方值转换为响度（LUFS）
+export const toLoudness = (meanSquare: number) =>
+  -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * 按 400ms 门限块计算积分响度
+ */
+const gateSegments = (segments: number[], segmentSize: number): number | null => {
+  if (segments.length < SEGMENTS_PER_BLOCK) return null;
+
+  // 400ms 门限块的均方值
+  const blockSize = segmentSize * SEGMENTS_PER_BLOCK;
+  const blocks: number[] = [];
+  for (let start = 0; start + SEGMENTS_PER_BLOCK <= segments.length; start++) {
+    let sum = 0;
+    for (let j = 0; j < SEGMENTS_PER_BLOCK; j++) {
+      sum += segments[start + j];
+    }
+    blocks.push(sum / blockSize);
+  }
+
+  // 绝对门限
+  const absoluteGated = blocks.filter(
+    (z) => z > 0 && toLoudness(z) > ABSOLUTE_GATE_LUFS
+  );
+  if (absoluteGated.length === 0) return null;
+
+  // 相对门限
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const relativeGate = toLoudness(mean(absoluteGated)) + RELATIVE_GATE_LU;
+  const relativeGated = absoluteGated.filter((z) => toLoudness(z) > relativeGate);
+  if (relativeGated.length === 0) return null;
+
+  return toLoudness(mean(relativeGated));
+};
+
+/**
+ * 创建响度测量器
+ */
+export const createLoudnessMeter = (
+  sampleRate: number,
+  channelCount: number
+): LoudnessMeter => {
+  const [f1, f2] = createKWeightingFilters(sampleRate);
+  const segmentSize = Math.round(sampleRate * SEGMENT_SECONDS);
+  // 每个声道两级滤波器的输入/输出历史：x1, x2, y1, y2, z1, z2
+  const history = Array.from({ length: channelCount }, () => new Float64Array(6));
+  // 已完成的 100ms 分段平方和，最后不足一段的部分丢弃
+  const segments: number[] = [];
+  let segmentSum = 0;
+  let segmentFill = 0;
+  let totalFrames = 0;
+  let peak = 0;
+
+  const push = (channels: Float32Array[]) => {
+    const frames = channels[0]?.length ?? 0;
+    if (frames === 0) return;
+
+    // 左右声道权重均为 1，多声道文件同样按 1 处理
+    const energy = new Float64Array(frames);
+    channels.forEach((samples, channel) => {
+      const h = history[channel];
+      if (!h) return;
+      let [x1, x2, y1, y2, z1, z2] = h;
+
+      for (let i = 0; i < frames; i++) {
+        const x = samples[i];
+        const y = f1.b0 * x + f1.b1 * x1 + f1.b2 * x2 - f1.a1 * y1 - f1.a2 * y2;
+        const z = f2.b0 * y + f2.b1 * y1 + f2.b2 * y2 - f2.a1 * z1 - f2.a2 * z2;
+
+        x2 = x1;
+        x1 = x;
+        y2 = y1;
+        y1 = y;
+        z2 = z1;
+        z1 = z;
+
+        energy[i] += z * z;
+        const value = Math.abs(x);
+        if (value > peak) peak = value;
+      }
+
+      h.set([x1, x2, y1, y2, z1, z2]);
+    });
+
+    for (let i = 0; i < frames; i++) {
+      segmentSum += energy[i];
+      if (++segmentFill === segmentSize) {
+        segments.push(segmentSum);
+        segmentSum = 0;
+        segmentFill = 0;
+      }
+    }
+    totalFrames += frames;
+  };
+
+  const finish = (): LoudnessInfo | null => {
+    const integrated = gateSegments(segments, segmentSize);
+    if (integrated === null) return null;
+    return { integrated, peak, duration: totalFrames / sampleRate };
+  };
+
+  return { push, finish };
+};
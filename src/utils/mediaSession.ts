@@ -0,0 +1,118 @@
+/**
+ * 系统媒体会话（Media Session API）
+ * 把当前歌曲信息和播放进度同步到系统媒体控件（媒体键、系统媒体浮层、锁屏控件），
+ * 并把系统发出的播放控制转交给播放器
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+
+/**
+ * 初始化媒体会话，返回清理函数
+ */
+export const setupMediaSession = (controls: PlayerControls): (() => void) => {
+  if (typeof navigator === "undefined" || !("mediaSession" in navigator)) {
+    return () => {};
+  }
+
+  const session = navigator.mediaSession;
+  const playerStore = usePlayerStore();
+
+  // 更新歌曲信息
+  const updateMetadata = () => {
+    const info = playerStore.currentSongInfo;
+    if (!info) {
+      session.metadata = null;
+      return;
+    }
+
+    session.metadata = new MediaMetadata({
+      title: info.title,
+      artist: info.artist,
+      album: info.album,
+      artwork: info.cover ? [{ src: info.cover, sizes: "512x512" }] : [],
+    });
+  };
+
+  // 更新播放状态
+  const updatePlaybackState = () => {
+    if (!playerStore.currentSong) {
+      session.playbackState = "none";
+    } else {
+      session.playbackState = playerStore.isPlaying ? "playing" : "paused";
+    }
+  };
+
+  // 更新进度（时长未知时不设置，否则会抛出异常）
+  const updatePositionState = () => {
+    if (!("setPositionState" in session)) return;
+
+    const duration = playerStore.duration;
+    try {
+      if (!Number.isFinite(duration) || duration <= 0) {
+        session.setPositionState();
+        return;
+      }
+      session.setPositionState({
+        duration,
+        position: Math.min(Math.max(playerStore.currentTime, 0), duration),
+        playbackRate: playerStore.currentPlaybackRate,
+      });
+    } catch (error) {
+      console.warn("更新媒体会话进度失败:", error);
+    }
+  };
+
+  // 注册系统控制，不支持的操作会抛出异常，忽略即可
+  const setHandler = (
+    action: MediaSessionAction,
+    handler: MediaSessionActionHandler | null
+  ) => {
+    try {
+      session.setActionHandler(action, handler);
+    } catch {
+      // 当前浏览器不支持该操作
+    }
+  };
+
+  setHandler("play", () => {
+    if (!playerStore.isPlaying) controls.togglePlay();
+  });
+  setHandler("pause", () => {
+    if (playerStore.isPlaying) controls.togglePlay();
+  });
+  setHandler("previoustrack", () => playerStore.playPrev());
+  setHandler("nexttrack", () => playerStore.playNext());
+  setHandler("seekto", (details) => {
+    if (details.seekTime === undefined) return;
+    controls.seek(details.seekTime);
+  });
+
+  const stopWatchers = [
+    watch(() => playerStore.currentSongInfo, updateMetadata, { immediate: true }),
+    watch(
+      () => [playerStore.isPlaying, playerStore.currentSong?.id],
+      updatePlaybackState,
+      { immediate: true }
+    ),
+    watch(
+      () => [
+        playerStore.currentTime,
+        playerStore.duration,
+        playerStore.currentPlaybackRate,
+      ],
+      updatePositionState,
+      { immediate: true }
+    ),
+  ];
+
+  return () => {
+    stopWatchers.forEach((stop) => stop());
+    (
+      ["play", "pause", "previoustrack", "nexttrack", "seekto"] as MediaSessionAction[]
+    ).forEach((action) => setHandler(action, null));
+    session.metadata = null;
+    session.playbackState = "none";
+  };
+};
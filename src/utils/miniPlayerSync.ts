@@ -0,0 +1,101 @@
+/**
+ * 迷你播放器同步（仅 Electron，运行在主窗口）
+ * 迷你模式下主窗口隐藏但继续负责播放，把播放状态推送给迷你播放器窗口，
+ * 并把迷你播放器中的操作转交给播放器
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+import { usePlaylistStore } from "@/stores/playlist";
+import type { MiniPlayerState } from "@/config/miniPlayer";
+
+interface MiniPlayerSyncOptions extends PlayerControls {
+  // 收藏/取消收藏当前歌曲
+  toggleFavorite: () => void;
+}
+
+/**
+ * 初始化迷你播放器同步，返回清理函数
+ */
+export const setupMiniPlayerSync = (
+  options: MiniPlayerSyncOptions
+): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.sendMiniPlayerState || !api.onMiniPlayerCommand) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const playlistStore = usePlaylistStore();
+
+  // 迷你播放器窗口是否已打开（打开后会发送 ready，关闭时主进程发送 closed）
+  let active = false;
+
+  // 推送播放状态
+  const pushState = () => {
+    if (!active) return;
+
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+
+    const state: MiniPlayerState = {
+      hasSong: !!song,
+      title: info?.title || "",
+      artist: info?.artist || "",
+      cover: info?.cover || "",
+      isPlaying: playerStore.isPlaying,
+      isFavorite: song ? playlistStore.isFavorite(song.id) : false,
+      currentTime: playerStore.currentTime,
+      duration: playerStore.duration,
+    };
+    api.sendMiniPlayerState(state);
+  };
+
+  const stopWatcher = watch(
+    () => {
+      const song = playerStore.currentSong;
+      return [
+        song?.id,
+        playerStore.currentSongInfo,
+        playerStore.isPlaying,
+        playerStore.currentTime,
+        playerStore.duration,
+        song ? playlistStore.isFavorite(song.id) : false,
+      ];
+    },
+    pushState
+  );
+
+  const stopListener = api.onMiniPlayerCommand((command) => {
+    switch (command.type) {
+      case "ready":
+        active = true;
+        pushState();
+        break;
+      case "closed":
+        active = false;
+        break;
+      case "playPause":
+        options.togglePlay();
+        break;
+      case "prev":
+        playerStore.playPrev();
+        break;
+      case "next":
+        playerStore.playNext();
+        break;
+      case "favorite":
+        options.toggleFavorite();
+        break;
+      case "seek":
+        options.seek(command.time);
+        break;
+    }
+  });
+
+  return () => {
+    stopWatcher();
+    stopListener();
+  };
+};
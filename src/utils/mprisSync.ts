@@ -0,0 +1,137 @@
+/**
+ * MPRIS 同步（仅 Linux Electron，运行在主窗口）
+ * 把播放状态推送给主进程的 MPRIS 服务，并执行 playerctl、桌面环境媒体控件发出的操作
+ */
+
+import { watch } from "vue";
+import { PlayMode, usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+import type { MprisCommand, MprisLoopStatus, MprisState } from "@/config/mpris";
+
+// 播放模式对应的 MPRIS 循环状态和随机播放
+const PLAY_MODE_TO_MPRIS: Record<PlayMode, { loopStatus: MprisLoopStatus; shuffle: boolean }> = {
+  [PlayMode.SEQUENCE_NO_WRAP]: { loopStatus: "None", shuffle: false },
+  [PlayMode.REPEAT_ALL]: { loopStatus: "Playlist", shuffle: false },
+  [PlayMode.LOOP]: { loopStatus: "Track", shuffle: false },
+  [PlayMode.RANDOM]: { loopStatus: "Playlist", shuffle: true },
+};
+
+/**
+ * 初始化 MPRIS 同步，返回清理函数
+ */
+export const setupMprisSync = (controls: PlayerControls): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.updateMprisState || !api.onMprisCommand) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+
+  const getState = (): MprisState => {
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+
+    return {
+      song:
+        song && info
+          ? {
+              id: song.id,
+              title: info.title,
+              artist: info.artist,
+              album: info.album,
+              artUrl: info.cover,
+              duration: playerStore.duration,
+            }
+          : null,
+      isPlaying: playerStore.isPlaying,
+      position: playerStore.currentTime,
+      sentAt: Date.now(),
+      rate: playerStore.currentPlaybackRate,
+      volume: playerStore.volume,
+      ...(PLAY_MODE_TO_MPRIS[playerStore.playMode] ?? PLAY_MODE_TO_MPRIS[PlayMode.REPEAT_ALL]),
+    };
+  };
+
+  // 循环状态和随机播放在 MPRIS 中是两个属性，播放器只有一个播放模式
+  const setLoopStatus = (loopStatus: MprisLoopStatus) => {
+    if (loopStatus === "None") {
+      playerStore.setPlayMode(PlayMode.SEQUENCE_NO_WRAP);
+    } else if (loopStatus === "Track") {
+      playerStore.setPlayMode(PlayMode.LOOP);
+    } else if (playerStore.playMode !== PlayMode.RANDOM) {
+      playerStore.setPlayMode(PlayMode.REPEAT_ALL);
+    }
+  };
+
+  const setShuffle = (shuffle: boolean) => {
+    if (shuffle) {
+      playerStore.setPlayMode(PlayMode.RANDOM);
+    } else if (playerStore.playMode === PlayMode.RANDOM) {
+      playerStore.setPlayMode(PlayMode.REPEAT_ALL);
+    }
+  };
+
+  const handleCommand = (command: MprisCommand) => {
+    switch (command.type) {
+      case "playPause":
+        controls.togglePlay();
+        break;
+      case "play":
+        if (!playerStore.isPlaying) controls.togglePlay();
+        break;
+      // 没有“停止”状态，按暂停处理
+      case "pause":
+      case "stop":
+        if (playerStore.isPlaying) controls.togglePlay();
+        break;
+      case "next":
+        playerStore.playNext();
+        break;
+      case "prev":
+        playerStore.playPrev();
+        break;
+      case "seek":
+        controls.seek(command.position);
+        break;
+      case "volume":
+        playerStore.setVolume(command.value);
+        break;
+      case "rate":
+        // 与播放速度菜单一致：当前歌曲已设置单曲速度时只修改该歌曲
+        playerStore.setPlaybackRate(
+          command.value,
+          playerStore.hasSongPlaybackRate ? playerStore.currentSong?.id : undefined
+        );
+        break;
+      case "loopStatus":
+        setLoopStatus(command.value);
+        break;
+      case "shuffle":
+        setShuffle(command.value);
+        break;
+    }
+  };
+
+  const stopCommandListener = api.onMprisCommand(handleCommand);
+
+  // 进度按秒推送，主进程在两次推送之间自行推算位置
+  const stopWatcher = watch(
+    () => [
+      playerStore.currentSong?.id,
+      playerStore.currentSongInfo,
+      playerStore.isPlaying,
+      Math.floor(playerStore.currentTime),
+      playerStore.duration,
+      playerStore.currentPlaybackRate,
+      playerStore.playMode,
+      playerStore.volume,
+    ],
+    () => api.updateMprisState(getState()),
+    { immediate: true }
+  );
+
+  return () => {
+    stopCommandListener();
+    stopWatcher();
+  };
+};
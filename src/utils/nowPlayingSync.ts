@@ -0,0 +1,93 @@
+/**
+ * 正在播放分享同步（仅 Electron，运行在主窗口）
+ * 切歌、播放/暂停、跳转进度时把播放信息推送给主进程，由主进程发布到 Discord、文本文件和 Webhook
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import { useSettingsStore } from "@/stores/settings";
+import type { NowPlayingInfo } from "@/config/nowPlaying";
+
+// 实际进度与推算进度相差超过这个值（秒）时认为发生了跳转
+const SEEK_DETECT_THRESHOLD = 2;
+
+/**
+ * 初始化正在播放分享同步，返回清理函数
+ */
+export const setupNowPlayingSync = (): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.updateNowPlaying) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const settingsStore = useSettingsStore();
+  let lastSent: NowPlayingInfo | null = null;
+  let lastRate = 1;
+
+  const isEnabled = () =>
+    settingsStore.nowPlayingDiscordEnabled ||
+    settingsStore.nowPlayingFileEnabled ||
+    settingsStore.nowPlayingWebhookEnabled;
+
+  const getInfo = (): NowPlayingInfo => {
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+
+    return {
+      song:
+        song && info
+          ? {
+              id: song.id,
+              title: info.title,
+              artist: info.artist,
+              album: info.album,
+              coverUrl: info.cover,
+              duration: playerStore.duration,
+            }
+          : null,
+      isPlaying: playerStore.isPlaying,
+      position: playerStore.currentTime,
+      sentAt: Date.now(),
+    };
+  };
+
+  const send = () => {
+    if (!isEnabled()) return;
+    lastSent = getInfo();
+    lastRate = playerStore.currentPlaybackRate;
+    api.updateNowPlaying(lastSent);
+  };
+
+  // 歌曲、播放状态变化或开启发布目标时推送
+  const stopInfoWatcher = watch(
+    () => [
+      settingsStore.nowPlayingDiscordEnabled,
+      settingsStore.nowPlayingFileEnabled,
+      settingsStore.nowPlayingWebhookEnabled,
+      playerStore.currentSong?.id,
+      playerStore.currentSongInfo,
+      playerStore.isPlaying,
+      playerStore.duration,
+    ],
+    send,
+    { immediate: true }
+  );
+
+  // 正常播放时进度变化不推送，只在跳转时推送（主进程按发布目标节流）
+  const stopSeekWatcher = watch(
+    () => playerStore.currentTime,
+    (time) => {
+      if (!lastSent?.song) return;
+      const elapsed = lastSent.isPlaying ? ((Date.now() - lastSent.sentAt) / 1000) * lastRate : 0;
+      if (Math.abs(time - (lastSent.position + elapsed)) > SEEK_DETECT_THRESHOLD) {
+        send();
+      }
+    }
+  );
+
+  return () => {
+    stopInfoWatcher();
+    stopSeekWatcher();
+  };
+};
@@ -0,0 +1,175 @@
+/**
+ * 听歌统计汇总
+ * 把播放事件按歌曲、歌手和日期汇总，供统计页面显示
+ */
+
+import type { PlayEvent, StatsGranularity } from "@/config/playStats";
+
+export interface SongStat {
+  songId: string;
+  title: string;
+  artist: string;
+  plays: number;
+  listenedSeconds: number;
+}
+
+export interface ArtistStat {
+  artist: string;
+  plays: number;
+  listenedSeconds: number;
+}
+
+// 一天或一周的收听时长
+export interface TimeBucket {
+  // 开始时间（毫秒时间戳，当天 / 当周周一 0 点）
+  start: number;
+  label: string;
+  listenedSeconds: number;
+}
+
+export interface PlayStatsSummary {
+  totalPlays: number;
+  totalSeconds: number;
+  uniqueSongs: number;
+  // 跳过率（0-1）
+  skipRate: number;
+  topSongs: SongStat[];
+  topArtists: ArtistStat[];
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 多个歌手的分隔符，如 "周杰伦/方文山"、"A & B"
+const ARTIST_SEPARATOR = /\s*(?:\/|、|,|，|&|;)\s*/;
+
+export const splitArtists = (artist: string) =>
+  artist
+    .split(ARTIST_SEPARATOR)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+// 按播放次数排序，次数相同时按收听时长排序
+const byPlays = <T extends { plays: number; listenedSeconds: number }>(a: T, b: T) =>
+  b.plays - a.plays || b.listenedSeconds - a.listenedSeconds;
+
+/**
+ * 汇总播放次数、收听时长、跳过率和排行
+ */
+export const summarizePlayEvents = (events: PlayEvent[], limit = 10): PlayStatsSummary => {
+  const songs = new Map<string, SongStat>();
+  const artists = new Map<string, ArtistStat>();
+  let totalSeconds = 0;
+  let skipped = 0;
+
+  for (const event of events) {
+    totalSeconds += event.listenedSeconds;
+    if (event.skipped) skipped++;
+
+    // 歌曲信息以最近一次播放为准
+    const song = songs.get(event.songId);
+    if (song) {
+      song.plays++;
+      song.listenedSeconds += event.listenedSeconds;
+      song.title = event.title || song.title;
+      song.artist = event.artist || song.artist;
+    } else {
+      songs.set(event.songId, {
+        songId: event.songId,
+        title: event.title,
+        artist: event.artist,
+        plays: 1,
+        listenedSeconds: event.listenedSeconds,
+      });
+    }
+
+    for (const name of splitArtists(event.artist)) {
+      const artist = artists.get(name);
+      if (artist) {
+        artist.plays++;
+        artist.listenedSeconds += event.listenedSeconds;
+      } else {
+        artists.set(name, { artist: name, plays: 1, listenedSeconds: event.listenedSeconds });
+      }
+    }
+  }
+
+  return {
+    totalPlays: events.length,
+    totalSeconds,
+    uniqueSongs: songs.size,
+    skipRate: events.length > 0 ? skipped / events.length : 0,
+    topSongs: [...songs.values()].sort(byPlays).slice(0, limit),
+    topArtists: [...artists.values()].sort(byPlays).slice(0, limit),
+  };
+};
+
+// 当天 0 点
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// 当周周一 0 点
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+// 下一天 / 下一周的开始时间（用日期计算，避免夏令时导致的偏差）
+const nextBucketStart = (start: number, granularity: StatsGranularity) => {
+  const date = new Date(start);
+  date.setDate(date.getDate() + (granularity === "week" ? 7 : 1));
+  return date.getTime();
+};
+
+/**
+ * 按天或按周汇总 [from, to) 范围内的收听时长，没有收听的日期也会列出
+ */
+export const groupListeningTime = (
+  events: PlayEvent[],
+  from: number,
+  to: number,
+  granularity: StatsGranularity
+): TimeBucket[] => {
+  const getBucketStart = granularity === "week" ? startOfWeek : startOfDay;
+  const buckets: TimeBucket[] = [];
+  const indexes = new Map<number, number>();
+
+  for (let start = getBucketStart(from); start < to; start = nextBucketStart(start, granularity)) {
+    indexes.set(start, buckets.length);
+    buckets.push({
+      start,
+      label: granularity === "week" ? `${formatDate(start)} 周` : formatDate(start),
+      listenedSeconds: 0,
+    });
+    // 防止异常的时间范围生成过多数据
+    if (buckets.length > 3660) break;
+  }
+
+  for (const event of events) {
+    const index = indexes.get(getBucketStart(event.startedAt));
+    if (index !== undefined) {
+      buckets[index].listenedSeconds += event.listenedSeconds;
+    }
+  }
+  return buckets;
+};
+
+/**
+ * 格式化收听时长，如 "3 小时 12 分钟"
+ */
+export const formatListeningTime = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return `${Math.round(seconds)} 秒`;
+  if (minutes < 60) return `${minutes} 分钟`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} 小时 ${rest} 分钟` : `${hours} 小时`;
+};
@@ -0,0 +1,139 @@
+/**
+ * 播放事件记录（运行在主窗口）
+ * 记录每一次播放的开始时间、实际收听时长和是否跳过，写入播放统计数据库；
+ * 收听过程中定期更新，程序被直接关闭时也能保留大部分时长
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import { usePlayStatsStore } from "@/stores/playStats";
+import {
+  MIN_RECORDED_SECONDS,
+  SKIP_REMAINING_SECONDS,
+  type PlayEvent,
+} from "@/config/playStats";
+
+// 两次进度更新之间超过这个值（秒）视为拖动进度，不计入收听时长
+const MAX_PROGRESS_STEP = 2;
+// 收听过程中每隔多少秒更新一次数据库
+const SAVE_INTERVAL = 15;
+
+interface CurrentPlay {
+  event: PlayEvent;
+  lastSavedSeconds: number;
+  // 依次写入，保证先写入新事件拿到 ID 再更新
+  saveTask: Promise<void>;
+}
+
+/**
+ * 初始化播放事件记录，返回清理函数
+ */
+export const setupPlayStatsRecorder = (): (() => void) => {
+  const playerStore = usePlayerStore();
+  const playStatsStore = usePlayStatsStore();
+
+  let current: CurrentPlay | null = null;
+  let lastTime = playerStore.currentTime;
+
+  const save = (play: CurrentPlay) => {
+    play.lastSavedSeconds = play.event.listenedSeconds;
+    play.saveTask = play.saveTask
+      .then(async () => {
+        const event = { ...play.event, listenedSeconds: Math.round(play.event.listenedSeconds) };
+        play.event.id = await playStatsStore.saveEvent(event);
+      })
+      .catch((error) => console.error("保存播放记录失败:", error));
+  };
+
+  // 结束当前这一次播放（切歌、单曲循环重新开始、关闭播放器）
+  const finishPlay = (skipped: boolean) => {
+    const play = current;
+    current = null;
+    if (!play || play.event.listenedSeconds < MIN_RECORDED_SECONDS) return;
+    play.event.skipped = skipped;
+    save(play);
+  };
+
+  const startPlay = () => {
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+    if (!song || !info) return;
+
+    current = {
+      event: {
+        songId: song.id,
+        title: info.title,
+        artist: info.artist,
+        album: info.album,
+        startedAt: Date.now(),
+        listenedSeconds: 0,
+        duration: Math.round(playerStore.duration),
+        skipped: false,
+      },
+      lastSavedSeconds: 0,
+      saveTask: Promise.resolve(),
+    };
+  };
+
+  // 切歌时根据上一首停下的位置判断是否跳过
+  const stopSongWatcher = watch(
+    () => playerStore.currentSong?.id,
+    () => {
+      const duration = current?.event.duration || 0;
+      finishPlay(duration > 0 && lastTime < duration - SKIP_REMAINING_SECONDS);
+      lastTime = playerStore.currentTime;
+    }
+  );
+
+  const stopProgressWatcher = watch(
+    () => playerStore.currentTime,
+    (time) => {
+      const step = time - lastTime;
+      const duration = playerStore.duration;
+
+      // 单曲循环：从结尾回到开头视为新的一次播放
+      if (
+        current &&
+        duration > 0 &&
+        time < MAX_PROGRESS_STEP &&
+        lastTime > duration - MAX_PROGRESS_STEP * 2
+      ) {
+        finishPlay(false);
+      }
+      lastTime = time;
+      if (!playerStore.isPlaying) return;
+
+      if (!current) startPlay();
+      if (!current) return;
+
+      // 歌曲详情和时长可能在开始播放后才加载完成
+      if (!current.event.duration && duration > 0) {
+        current.event.duration = Math.round(duration);
+      }
+      if (step > 0 && step <= MAX_PROGRESS_STEP) {
+        current.event.listenedSeconds += step;
+      }
+
+      if (current.event.listenedSeconds - current.lastSavedSeconds >= SAVE_INTERVAL) {
+        save(current);
+      }
+    }
+  );
+
+  // 暂停时保存一次
+  const stopPlayingWatcher = watch(
+    () => playerStore.isPlaying,
+    (isPlaying) => {
+      if (!isPlaying && current && current.event.listenedSeconds >= MIN_RECORDED_SECONDS) {
+        save(current);
+      }
+    }
+  );
+
+  return () => {
+    stopSongWatcher();
+    stopProgressWatcher();
+    stopPlayingWatcher();
+    finishPlay(false);
+  };
+};
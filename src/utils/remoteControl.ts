@@ -0,0 +1,139 @@
+/**
+ * 远程控制（仅 Electron，运行在主窗口）
+ * 执行主进程转交的控制命令（命令行参数、局域网远程控制接口），
+ * 回答主进程的查询（播放状态、播放列表、搜索），并在开启远程控制时推送播放状态
+ */
+
+import { watch } from "vue";
+import MusicApi from "@/api/music";
+import { usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+import { useSettingsStore } from "@/stores/settings";
+import type {
+  RemoteCommand,
+  RemotePlayerStatus,
+  RemoteQuery,
+  RemoteQueryResult,
+  RemoteQueue,
+} from "@/config/remoteControl";
+
+interface RemoteControlOptions extends PlayerControls {
+  // 当前播放模式的显示文字
+  playModeText: () => string;
+}
+
+/**
+ * 初始化远程控制，返回清理函数
+ */
+export const setupRemoteControl = (
+  options: RemoteControlOptions
+): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.onRemoteCommand || !api.onRemoteQuery) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const settingsStore = useSettingsStore();
+
+  const getStatus = (): RemotePlayerStatus => {
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+
+    return {
+      song:
+        song && info
+          ? { id: song.id, title: info.title, artist: info.artist, album: info.album }
+          : null,
+      isPlaying: playerStore.isPlaying,
+      position: playerStore.currentTime,
+      duration: playerStore.duration,
+      playMode: playerStore.playMode,
+      playModeText: options.playModeText(),
+      volume: Math.round(playerStore.volume * 100),
+    };
+  };
+
+  const getQueue = (): RemoteQueue => ({
+    currentIndex: playerStore.currentIndex,
+    playlist: playerStore.playlist,
+    upNext: playerStore.queue,
+  });
+
+  const handleCommand = (command: RemoteCommand) => {
+    switch (command.type) {
+      case "playPause":
+        options.togglePlay();
+        break;
+      case "play":
+        if (!playerStore.isPlaying) options.togglePlay();
+        break;
+      case "pause":
+        if (playerStore.isPlaying) options.togglePlay();
+        break;
+      case "next":
+        playerStore.playNext();
+        break;
+      case "prev":
+        playerStore.playPrev();
+        break;
+      case "seek":
+        options.seek(command.position);
+        break;
+      case "volume":
+        playerStore.setVolume(command.value / 100);
+        break;
+    }
+  };
+
+  const handleQuery = async (query: RemoteQuery): Promise<RemoteQueryResult> => {
+    switch (query.type) {
+      case "status":
+        return { success: true, data: getStatus() };
+      case "queue":
+        return { success: true, data: getQueue() };
+      case "search": {
+        try {
+          const result = await MusicApi.search(query.keyword, query.limit);
+          return result.success
+            ? { success: true, data: result.data }
+            : { success: false, message: result.message || "搜索失败" };
+        } catch (error: any) {
+          return { success: false, message: error?.message || "搜索失败" };
+        }
+      }
+    }
+  };
+
+  const stopCommandListener = api.onRemoteCommand(handleCommand);
+  const stopQueryListener = api.onRemoteQuery(async (requestId, query) => {
+    // 返回值会经过 IPC 结构化克隆，先转成普通对象
+    const result = await handleQuery(query);
+    api.sendRemoteQueryResult(requestId, JSON.parse(JSON.stringify(result)));
+  });
+
+  // 开启远程控制时推送播放状态（进度按秒推送）
+  const stopWatcher = watch(
+    () => [
+      settingsStore.remoteControlEnabled,
+      playerStore.currentSong?.id,
+      playerStore.currentSongInfo,
+      playerStore.isPlaying,
+      Math.floor(playerStore.currentTime),
+      playerStore.duration,
+      playerStore.playMode,
+      playerStore.volume,
+    ],
+    () => {
+      if (!settingsStore.remoteControlEnabled) return;
+      api.sendRemotePlayerState(getStatus());
+    },
+    { immediate: true }
+  );
+
+  return () => {
+    stopCommandListener();
+    stopQueryListener();
+    stopWatcher();
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * 听歌记录同步（仅 Electron，运行在主窗口）
+ * 开始播放时发送“正在播放”，实际播放时长达到歌曲的一半或 4 分钟后提交记录（拖动进度跳过的部分不计入），
+ * 提交和离线队列由主进程处理
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import { useSettingsStore } from "@/stores/settings";
+import {
+  SCROBBLE_MAX_PLAYED_TIME,
+  SCROBBLE_MIN_DURATION,
+  type ScrobbleTrack,
+} from "@/config/scrobble";
+
+// 两次进度更新之间超过这个值（秒）视为拖动进度，不计入播放时长
+const MAX_PROGRESS_STEP = 2;
+
+/**
+ * 初始化听歌记录同步，返回清理函数
+ */
+export const setupScrobbleSync = (): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.scrobbleTrack || !api.scrobbleNowPlaying) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const settingsStore = useSettingsStore();
+
+  // 当前这一次播放的状态（单曲循环时每一遍单独计算）
+  let startedAt = 0;
+  let playedTime = 0;
+  let lastTime = 0;
+  let nowPlayingSent = false;
+  let scrobbled = false;
+
+  const isEnabled = () =>
+    settingsStore.scrobbleLastfmEnabled || settingsStore.scrobbleListenBrainzEnabled;
+
+  const resetPlay = () => {
+    startedAt = 0;
+    playedTime = 0;
+    lastTime = playerStore.currentTime;
+    nowPlayingSent = false;
+    scrobbled = false;
+  };
+
+  // 没有歌手或歌名的歌曲（如信息不全的本地文件）不提交
+  const getTrack = (): ScrobbleTrack | null => {
+    const info = playerStore.currentSongInfo;
+    if (!info) return null;
+    const artist = info.artist.trim();
+    const title = info.title.trim();
+    if (!artist || !title) return null;
+
+    return {
+      artist,
+      title,
+      album: info.album.trim(),
+      duration: Math.round(playerStore.duration),
+      timestamp: startedAt,
+    };
+  };
+
+  const stopSongWatcher = watch(() => playerStore.currentSong?.id, resetPlay);
+
+  const stopProgressWatcher = watch(
+    () => playerStore.currentTime,
+    (time) => {
+      const duration = playerStore.duration;
+      const step = time - lastTime;
+
+      // 单曲循环：从结尾回到开头视为新的一次播放
+      if (duration > 0 && time < MAX_PROGRESS_STEP && lastTime > duration - MAX_PROGRESS_STEP * 2) {
+        resetPlay();
+        return;
+      }
+      lastTime = time;
+      if (!playerStore.isPlaying || !isEnabled()) return;
+
+      if (!startedAt) {
+        startedAt = Math.floor(Date.now() / 1000);
+      }
+      if (step > 0 && step <= MAX_PROGRESS_STEP) {
+        playedTime += step;
+      }
+
+      const track = getTrack();
+      if (!track) return;
+
+      if (!nowPlayingSent) {
+        nowPlayingSent = true;
+        api.scrobbleNowPlaying(track);
+      }
+
+      if (
+        !scrobbled &&
+        duration >= SCROBBLE_MIN_DURATION &&
+        playedTime >= Math.min(duration / 2, SCROBBLE_MAX_PLAYED_TIME)
+      ) {
+        scrobbled = true;
+        api.scrobbleTrack(track);
+      }
+    }
+  );
+
+  return () => {
+    stopSongWatcher();
+    stopProgressWatcher();
+  };
+};
@@ -0,0 +1,220 @@
+/**
+ * 应用内快捷键与命令注册中心
+ * 组件挂载时注册命令（可绑定快捷键），卸载时注销；命令面板按名称搜索并执行当前已注册的命令。
+ * 同一 id 重复注册时以最后注册的为准，注销后恢复之前的注册。
+ *
+ * 快捷键格式："Mod+Shift+K"、"Space"、"ArrowLeft"，Mod 在 macOS 上为 Cmd，其他平台为 Ctrl
+ */
+
+import { reactive, shallowRef, computed } from "vue";
+
+export interface AppCommand {
+  // 唯一标识
+  id: string;
+  // 显示名称（命令面板按名称搜索）
+  title: string;
+  // 分组（播放、歌单、导航等）
+  group: string;
+  // 快捷键
+  shortcut?: string;
+  // 额外的搜索关键词
+  keywords?: string[];
+  // 输入框聚焦时也响应快捷键
+  allowInInput?: boolean;
+  // 按住按键时是否重复触发
+  repeat?: boolean;
+  // 不在命令面板中显示
+  hidden?: boolean;
+  run: () => void | Promise<void>;
+}
+
+interface ParsedShortcut {
+  mod: boolean;
+  shift: boolean;
+  alt: boolean;
+  key: string;
+}
+
+interface Registration {
+  token: number;
+  command: AppCommand;
+  parsed: ParsedShortcut | null;
+}
+
+const isMac = () =>
+  typeof navigator !== "undefined" && /Mac/i.test(navigator.platform);
+
+// 解析快捷键字符串
+const parseShortcut = (shortcut: string): ParsedShortcut => {
+  const parts = shortcut.split("+");
+  const key = parts.pop() || "";
+  return {
+    mod: parts.includes("Mod"),
+    shift: parts.includes("Shift"),
+    alt: parts.includes("Alt"),
+    key: key.length === 1 ? key.toUpperCase() : key,
+  };
+};
+
+// 键盘事件的按键名（与快捷键字符串中的写法一致）
+const getEventKey = (event: KeyboardEvent): string => {
+  if (event.key === " ") return "Space";
+  // 字母使用 code 判断，避免受 Shift / Alt 及输入法影响
+  if (/^Key[A-Z]$/.test(event.code)) return event.code.slice(3);
+  return event.key.length === 1 ? event.key.toUpperCase() : event.key;
+};
+
+// 焦点是否在可输入元素上（此时不响应普通快捷键）
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  // 滑块自身会处理方向键
+  return target.getAttribute("role") === "slider";
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+};
+
+/**
+ * 把快捷键转换为便于阅读的文字
+ */
+export const formatShortcut = (shortcut: string): string => {
+  return shortcut
+    .split("+")
+    .map((part) => {
+      if (part === "Mod") return isMac() ? "⌘" : "Ctrl";
+      if (part === "Alt" && isMac()) return "⌥";
+      return KEY_LABELS[part] || part;
+    })
+    .join(isMac() ? "" : "+");
+};
+
+class ShortcutRegistry {
+  // 修饰键按下状态（列表多选等场景使用）
+  readonly modifiers = reactive({
+    shift: false,
+    ctrl: false,
+    alt: false,
+    meta: false,
+  });
+
+  private registrations = shallowRef<Registration[]>([]);
+  private nextToken = 0;
+  private installed = false;
+
+  // 当前生效的命令（同一 id 只保留最后注册的，最新的在前）
+  private activeRegistrations = computed(() => {
+    const seen = new Set<string>();
+    const result: Registration[] = [];
+    for (let i = this.registrations.value.length - 1; i >= 0; i--) {
+      const registration = this.registrations.value[i];
+      if (seen.has(registration.command.id)) continue;
+      seen.add(registration.command.id);
+      result.push(registration);
+    }
+    return result;
+  });
+
+  // 命令面板中可见的命令
+  readonly commands = computed(() =>
+    this.activeRegistrations.value
+      .map((registration) => registration.command)
+      .filter((command) => !command.hidden)
+  );
+
+  /**
+   * 注册命令，返回注销函数
+   */
+  register(commands: AppCommand | AppCommand[]): () => void {
+    const list = Array.isArray(commands) ? commands : [commands];
+    const added = list.map((command) => ({
+      token: this.nextToken++,
+      command,
+      parsed: command.shortcut ? parseShortcut(command.shortcut) : null,
+    }));
+    this.registrations.value = [...this.registrations.value, ...added];
+
+    const tokens = new Set(added.map((registration) => registration.token));
+    return () => {
+      this.registrations.value = this.registrations.value.filter(
+        (registration) => !tokens.has(registration.token)
+      );
+    };
+  }
+
+  /**
+   * 按 id 执行命令，命令不存在时返回 false
+   */
+  async run(id: string): Promise<boolean> {
+    const registration = this.activeRegistrations.value.find(
+      (item) => item.command.id === id
+    );
+    if (!registration) return false;
+    await registration.command.run();
+    return true;
+  }
+
+  /**
+   * 监听全局键盘事件（应用启动时调用一次）
+   */
+  install() {
+    if (this.installed || typeof document === "undefined") return;
+    this.installed = true;
+
+    document.addEventListener("keydown", this.handleKeyDown);
+    document.addEventListener("keyup", this.updateModifiers);
+    // 切换窗口时收不到 keyup，重置修饰键状态
+    window.addEventListener("blur", this.resetModifiers);
+  }
+
+  private updateModifiers = (event: KeyboardEvent) => {
+    this.modifiers.shift = event.shiftKey;
+    this.modifiers.ctrl = event.ctrlKey;
+    this.modifiers.alt = event.altKey;
+    this.modifiers.meta = event.metaKey;
+  };
+
+  private resetModifiers = () => {
+    this.modifiers.shift = false;
+    this.modifiers.ctrl = false;
+    this.modifiers.alt = false;
+    this.modifiers.meta = false;
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    this.updateModifiers(event);
+    if (event.defaultPrevented || event.isComposing) return;
+
+    const key = getEventKey(event);
+    const mod = isMac() ? event.metaKey : event.ctrlKey;
+    // 非 Mod 的 Ctrl / Cmd 组合不处理，交给系统和浏览器
+    if (isMac() ? event.ctrlKey : event.metaKey) return;
+
+    const editable = isEditableTarget(event.target);
+    const registration = this.activeRegistrations.value.find(({ command, parsed }) => {
+      if (!parsed) return false;
+      if (editable && !command.allowInInput) return false;
+      return (
+        parsed.key === key &&
+        parsed.mod === mod &&
+        parsed.shift === event.shiftKey &&
+        parsed.alt === event.altKey
+      );
+    });
+    if (!registration) return;
+
+    event.preventDefault();
+    if (event.repeat && !registration.command.repeat) return;
+    Promise.resolve(registration.command.run()).catch((error) => {
+      console.error(`执行命令失败 [${registration.command.id}]:`, error);
+    });
+  };
+}
+
+export const shortcuts = new ShortcutRegistry();
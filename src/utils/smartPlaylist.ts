@@ -0,0 +1,151 @@
+/**
+ * 智能歌单规则计算
+ * 从收藏、自定义歌单、本地音乐和试听列表中收集歌曲（按 ID 去重），再按规则筛选
+ */
+
+import type { Song } from "@/api/music";
+import type { CustomPlaylist } from "@/stores/playlist";
+import type { LocalMusicFile } from "@/stores/localMusic";
+import type { SmartPlaylist, SmartRule } from "@/config/smartPlaylist";
+import { DAY_MS } from "@/utils/playStats";
+
+export interface SmartPlaylistSources {
+  favoriteList: Song[];
+  historyList: Song[];
+  localFiles: LocalMusicFile[];
+  playlists: CustomPlaylist[];
+  // 每首歌的播放次数（听歌统计）
+  playCounts: Record<string, number>;
+}
+
+// 规则计算时使用的索引，所有智能歌单共用一份
+export interface SmartPlaylistIndex {
+  songs: Song[];
+  favoriteIds: Set<string>;
+  historyIds: Set<string>;
+  localAddedAt: Map<string, number>;
+  playlistSongIds: Map<string, Set<string>>;
+  playCounts: Record<string, number>;
+  now: number;
+}
+
+const toIdSet = (songs: Song[]) => new Set(songs.map((song) => song.id));
+
+/**
+ * 收集所有歌曲并建立索引
+ */
+export const createSmartPlaylistIndex = (
+  sources: SmartPlaylistSources,
+  now = Date.now()
+): SmartPlaylistIndex => {
+  const songs = new Map<string, Song>();
+  const collect = (list: Song[]) => {
+    for (const song of list) {
+      if (!songs.has(song.id)) songs.set(song.id, song);
+    }
+  };
+
+  collect(sources.favoriteList);
+  sources.playlists.forEach((playlist) => collect(playlist.songs));
+  collect(sources.localFiles);
+  collect(sources.historyList);
+
+  return {
+    songs: [...songs.values()],
+    favoriteIds: toIdSet(sources.favoriteList),
+    historyIds: toIdSet(sources.historyList),
+    localAddedAt: new Map(sources.localFiles.map((file) => [file.id, file.addedAt])),
+    playlistSongIds: new Map(sources.playlists.map((playlist) => [playlist.id, toIdSet(playlist.songs)])),
+    playCounts: sources.playCounts,
+    now,
+  };
+};
+
+const compareText = (text: string, rule: SmartRule) => {
+  const source = (text || "").toLowerCase();
+  const keyword = String(rule.value).trim().toLowerCase();
+  switch (rule.operator) {
+    case "contains":
+      return source.includes(keyword);
+    case "notContains":
+      return !source.includes(keyword);
+    case "equals":
+      return source === keyword;
+    default:
+      return false;
+  }
+};
+
+const compareNumber = (value: number, rule: SmartRule) => {
+  const target = Number(rule.value) || 0;
+  switch (rule.operator) {
+    case "greaterThan":
+      return value > target;
+    case "lessThan":
+      return value < target;
+    case "equals":
+      return value === target;
+    default:
+      return false;
+  }
+};
+
+const compareMembership = (included: boolean, rule: SmartRule) =>
+  rule.operator === "isNot" ? !included : included;
+
+// 播放次数以听歌统计为准；开始统计之前就在试听列表中的歌曲至少算播放过一次
+const getPlayCount = (song: Song, index: SmartPlaylistIndex) => {
+  const count = index.playCounts[song.id] || 0;
+  return count === 0 && index.historyIds.has(song.id) ? 1 : count;
+};
+
+const matchRule = (song: Song, rule: SmartRule, index: SmartPlaylistIndex) => {
+  switch (rule.field) {
+    case "favorite":
+      return compareMembership(index.favoriteIds.has(song.id), rule);
+    case "history":
+      return compareMembership(index.historyIds.has(song.id), rule);
+    case "local":
+      return compareMembership(index.localAddedAt.has(song.id), rule);
+    case "playlist":
+      return compareMembership(
+        index.playlistSongIds.get(String(rule.value))?.has(song.id) ?? false,
+        rule
+      );
+    case "title":
+      return compareText(song.name, rule);
+    case "artist":
+      return compareText(song.artists, rule);
+    case "album":
+      return compareText(song.album, rule);
+    case "playCount":
+      return compareNumber(getPlayCount(song, index), rule);
+    case "localAddedDays": {
+      // 不在本地音乐中的歌曲不满足这条规则
+      const addedAt = index.localAddedAt.get(song.id);
+      if (addedAt === undefined) return false;
+      return compareNumber((index.now - addedAt) / DAY_MS, rule);
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * 计算智能歌单中的歌曲，没有规则时为空
+ */
+export const evaluateSmartPlaylist = (
+  playlist: Pick<SmartPlaylist, "match" | "rules">,
+  index: SmartPlaylistIndex
+): Song[] => {
+  if (playlist.rules.length === 0) return [];
+  return index.songs.filter((song) =>
+    playlist.match === "any"
+      ? playlist.rules.some((rule) => matchRule(song, rule, index))
+      : playlist.rules.every((rule) => matchRule(song, rule, index))
+  );
+};
+
+// 规则是否用到了播放次数（需要读取听歌统计）
+export const usesPlayCount = (playlist: Pick<SmartPlaylist, "rules">) =>
+  playlist.rules.some((rule) => rule.field === "playCount");
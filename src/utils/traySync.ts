@@ -0,0 +1,98 @@
+/**
+ * 系统托盘同步（仅 Electron）
+ * 把当前歌曲和播放状态推送给主进程，用于更新托盘菜单和提示文字，
+ * 并把托盘菜单中的播放控制和桌面歌词开关转交给播放器和设置
+ */
+
+import { watch } from "vue";
+import { usePlayerStore } from "@/stores/player";
+import type { PlayerControls } from "@/stores/player";
+import { usePlaylistStore } from "@/stores/playlist";
+import { useSettingsStore } from "@/stores/settings";
+
+interface TraySyncOptions extends PlayerControls {
+  // 收藏/取消收藏当前歌曲
+  toggleFavorite: () => void;
+  // 当前播放模式的显示文字
+  playModeText: () => string;
+}
+
+/**
+ * 初始化托盘同步，返回清理函数
+ */
+export const setupTraySync = (options: TraySyncOptions): (() => void) => {
+  const api = window.electronAPI;
+  if (!api?.updateTrayState || !api.onTrayCommand) {
+    return () => {};
+  }
+
+  const playerStore = usePlayerStore();
+  const playlistStore = usePlaylistStore();
+  const settingsStore = useSettingsStore();
+
+  // 推送播放状态
+  const pushState = () => {
+    const song = playerStore.currentSong;
+    const info = playerStore.currentSongInfo;
+
+    api
+      .updateTrayState({
+        hasSong: !!song,
+        title: info?.title || "",
+        artist: info?.artist || "",
+        isPlaying: playerStore.isPlaying,
+        playModeText: options.playModeText(),
+        isFavorite: song ? playlistStore.isFavorite(song.id) : false,
+      })
+      .catch((error) => {
+        console.warn("更新托盘状态失败:", error);
+      });
+  };
+
+  const stopWatcher = watch(
+    () => {
+      const song = playerStore.currentSong;
+      return [
+        song?.id,
+        playerStore.currentSongInfo?.title,
+        playerStore.currentSongInfo?.artist,
+        playerStore.isPlaying,
+        playerStore.playMode,
+        song ? playlistStore.isFavorite(song.id) : false,
+      ];
+    },
+    pushState,
+    { immediate: true }
+  );
+
+  const stopListener = api.onTrayCommand((command) => {
+    switch (command) {
+      case "playPause":
+        options.togglePlay();
+        break;
+      case "next":
+        playerStore.playNext();
+        break;
+      case "prev":
+        playerStore.playPrev();
+        break;
+      case "togglePlayMode":
+        playerStore.togglePlayMode();
+        break;
+      case "favorite":
+        options.toggleFavorite();
+        break;
+      case "toggleDesktopLyric":
+        settingsStore.desktopLyricEnabled = !settingsStore.desktopLyricEnabled;
+        break;
+      case "toggleDesktopLyricLock":
+        settingsStore.desktopLyricLocked = !settingsStore.desktopLyricLocked;
+        break;
+    }
+  });
+
+  return () => {
+    stopWatcher();
+    stopListener();
+  };
+};